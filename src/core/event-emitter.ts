@@ -9,6 +9,7 @@ export type EventName =
   | 'aiResponseChunk'
   | 'aiFinalized'
   | 'aiError'
+  | 'aiCancelled'            // In-flight generate/audit stream was stopped by the user
   | 'aiUserMessage'
   | 'toggleViewerShortcut'
   | 'showViewerRequest'      // Programmatic request to show the viewer
@@ -35,6 +36,7 @@ export interface EventPayloads {
   'aiResponseChunk': string;
   'aiFinalized': void;
   'aiError': Error | string;
+  'aiCancelled': { source: 'generate' | 'audit' };
   'aiUserMessage': string;
   'toggleViewerShortcut': void;
   'showViewerRequest': void;
@@ -4,7 +4,9 @@ import Checkra from '../ui/Checkra';
 import { EventEmitter } from './event-emitter';
 import * as Auth from '../auth/auth'; // Import auth functions
 import { customWarn, customError } from '../utils/logger';
-import { initializeAiServiceListeners } from '../services/ai-service'; // Import the initializer
+import { initializeAiServiceListeners, setAiProvider } from '../services/ai-service'; // Import the initializer
+import { configureTracking, track } from './tracker';
+import { setAuditHistoryStore } from '../services/audit-history';
 
 // Module-level instance variables
 let settingsModalInstance: SettingsModal | null = null;
@@ -105,6 +107,12 @@ export interface CheckraAPI {
    * Exposed mainly for debugging or advanced scenarios; fetchProtected is preferred.
    */
   getAuthToken: () => Promise<string | null>;
+
+  /**
+   * Records a conversion or custom event for the current visitor. Events carry the
+   * active snapshot/variant and are batched to `tracking.collectorUrl`.
+   */
+  track: (eventName: string, props?: Record<string, unknown>) => void;
 }
 
 // Default options specifically for the core initialization path
@@ -113,6 +121,7 @@ export interface CheckraAPI {
 const coreDefaultOptions: Partial<CheckraOptions> = {
   isVisible: false, // Default to hidden for programmatic init too
   enableRating: false, // ADDED: Default for enableRating
+  persistFixes: false,
 };
 
 /**
@@ -146,6 +155,11 @@ export function initCheckra(options?: CheckraOptions): CheckraAPI | null {
     }
   }
 
+  // Route generate/audit/rate through a custom provider if one was given
+  setAiProvider(finalOptions.aiProvider);
+  configureTracking(finalOptions.tracking);
+  setAuditHistoryStore(finalOptions.auditHistoryStore);
+
   try {
     if (!settingsModalInstance) {
       settingsModalInstance = new SettingsModal();
@@ -153,7 +167,7 @@ export function initCheckra(options?: CheckraOptions): CheckraAPI | null {
 
     if (!feedbackViewerInstance) {
       // Pass enableRating to getInstance
-      feedbackViewerInstance = Checkra.getInstance(settingsModalInstance, finalOptions.isVisible, finalOptions.enableRating);
+      feedbackViewerInstance = Checkra.getInstance(settingsModalInstance, finalOptions.isVisible, finalOptions.enableRating, finalOptions.persistFixes);
     }
 
     const api: CheckraAPI = {
@@ -185,7 +199,8 @@ export function initCheckra(options?: CheckraOptions): CheckraAPI | null {
       handleAuthCallback: Auth.handleAuthCallback,
       logout: Auth.logout,
       isLoggedIn: Auth.isLoggedIn,
-      getAuthToken: Auth.getToken // Exposing getToken as getAuthToken on the API
+      getAuthToken: Auth.getToken, // Exposing getToken as getAuthToken on the API
+      track,
     };
 
     return api;
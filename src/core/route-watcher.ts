@@ -0,0 +1,76 @@
+import { customError } from '../utils/logger';
+
+type RouteListener = (url: string) => void;
+
+const listeners = new Set<RouteListener>();
+let installed = false;
+let lastRouteKey: string | null = null;
+
+/** Path and query, ignoring Checkra's own preview parameter (removed via replaceState after a snapshot loads). */
+function routeKey(): string {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('checkra-id');
+  return `${url.pathname}${url.search}`;
+}
+
+function notifyIfRouteChanged(): void {
+  const key = routeKey();
+  if (key === lastRouteKey) return;
+  lastRouteKey = key;
+  listeners.forEach(listener => {
+    try {
+      listener(window.location.href);
+    } catch (e) {
+      customError('[Checkra] Route change listener failed:', e);
+    }
+  });
+}
+
+/** Wraps history.pushState/replaceState once and listens for popstate. */
+function install(): void {
+  if (installed) return;
+  installed = true;
+  lastRouteKey = routeKey();
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = window.history[method];
+    window.history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      notifyIfRouteChanged();
+      return result;
+    };
+  });
+  window.addEventListener('popstate', notifyIfRouteChanged);
+}
+
+/**
+ * Calls `listener` after client-side navigations (pushState, replaceState, back/forward)
+ * that change the path or query. Hash-only changes are ignored. Returns an unsubscribe function.
+ */
+export function onRouteChange(listener: RouteListener): () => void {
+  install();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Resolves once the body has had no mutations for `quietMs` (or after `maxMs`),
+ * so a router has a chance to render the new route before we look for targets.
+ */
+export function waitForDomToSettle(quietMs = 150, maxMs = 2000): Promise<void> {
+  return new Promise(resolve => {
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const finish = () => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(maxTimer);
+      resolve();
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, quietMs);
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    quietTimer = setTimeout(finish, quietMs);
+    const maxTimer = setTimeout(finish, maxMs);
+  });
+}
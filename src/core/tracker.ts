@@ -0,0 +1,174 @@
+import type { TrackingOptions } from '../types';
+import { customWarn } from '../utils/logger';
+
+/** A single tracked event as sent to the collector. */
+export interface TrackedEvent {
+  name: string;
+  props: Record<string, unknown>;
+  timestamp: number;
+  url: string;
+  visitorId: string;
+  /** Snapshot applied on this page view (variant or preview), if any. */
+  snapshotId: string | null;
+  experimentId: string | null;
+  /** Experiment arm ('control' or a snapshot ID), if the visitor is in an experiment. */
+  variantId: string | null;
+}
+
+export interface TrackingContext {
+  snapshotId: string | null;
+  experimentId: string | null;
+  variantId: string | null;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const MAX_QUEUE_SIZE = 500;
+const VISITOR_ID_KEY = 'checkra_visitor_id';
+const GOAL_ATTRIBUTE = 'data-checkra-goal';
+
+let collectorUrl: string | null = null;
+let statsUrl: string | null = null;
+let batchSize = DEFAULT_BATCH_SIZE;
+let flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS;
+let queue: TrackedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listenersInstalled = false;
+let warnedMissingCollector = false;
+let context: TrackingContext = { snapshotId: null, experimentId: null, variantId: null };
+let visitorId: string | null = null;
+
+function getVisitorId(): string {
+  if (visitorId) return visitorId;
+  try {
+    visitorId = localStorage.getItem(VISITOR_ID_KEY);
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    }
+  } catch {
+    visitorId = visitorId || crypto.randomUUID(); // storage blocked – per page view ID
+  }
+  return visitorId;
+}
+
+function handleGoalClick(event: MouseEvent): void {
+  const goalElement = (event.target as Element | null)?.closest?.(`[${GOAL_ATTRIBUTE}]`);
+  if (!goalElement) return;
+  const goal = goalElement.getAttribute(GOAL_ATTRIBUTE);
+  if (!goal) return;
+  track(goal, {
+    goal: true,
+    element: goalElement.tagName.toLowerCase(),
+    text: (goalElement.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80),
+  });
+}
+
+function handlePageHide(): void {
+  flush(true);
+}
+
+function handleVisibilityChange(): void {
+  if (document.visibilityState === 'hidden') flush(true);
+}
+
+function installListeners(): void {
+  if (listenersInstalled || typeof document === 'undefined') return;
+  // Capture phase so goals still count when the page stops propagation or navigates away
+  document.addEventListener('click', handleGoalClick, true);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', handlePageHide);
+  listenersInstalled = true;
+}
+
+/**
+ * Sets the collector endpoint, stats source and batching. Safe to call more than once;
+ * later calls override earlier values. Also starts listening for clicks on
+ * `data-checkra-goal` elements.
+ */
+export function configureTracking(options?: TrackingOptions): void {
+  if (options?.collectorUrl) collectorUrl = options.collectorUrl;
+  if (options?.statsUrl) statsUrl = options.statsUrl;
+  if (options?.batchSize && options.batchSize > 0) batchSize = options.batchSize;
+  if (options?.flushIntervalMs && options.flushIntervalMs > 0) flushIntervalMs = options.flushIntervalMs;
+  installListeners();
+}
+
+/** Attaches the active snapshot/variant to every event tracked from now on. */
+export function setTrackingContext(update: Partial<TrackingContext>): void {
+  context = { ...context, ...update };
+}
+
+export function getStatsUrl(): string | null {
+  return statsUrl;
+}
+
+export function getTrackingContext(): TrackingContext {
+  return { ...context };
+}
+
+/**
+ * Buffers an event. Events are sent when the batch is full, after the flush
+ * interval, or when the page is hidden.
+ */
+export function track(name: string, props: Record<string, unknown> = {}): void {
+  if (!name || typeof name !== 'string') {
+    customWarn('[Checkra Tracking] track() needs an event name.');
+    return;
+  }
+  installListeners();
+  queue.push({
+    name,
+    props,
+    timestamp: Date.now(),
+    url: window.location.href,
+    visitorId: getVisitorId(),
+    ...context,
+  });
+  if (queue.length > MAX_QUEUE_SIZE) queue = queue.slice(-MAX_QUEUE_SIZE);
+
+  if (queue.length >= batchSize) {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flush(), flushIntervalMs);
+  }
+}
+
+/**
+ * Sends buffered events to the collector. `useBeacon` is for page unload,
+ * where a normal fetch may be cancelled.
+ */
+export function flush(useBeacon: boolean = false): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+  if (!collectorUrl) {
+    if (!warnedMissingCollector) {
+      customWarn('[Checkra Tracking] No tracking.collectorUrl configured; events are kept in memory only.');
+      warnedMissingCollector = true;
+    }
+    return;
+  }
+
+  const events = queue;
+  queue = [];
+  const body = JSON.stringify({ events });
+
+  if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    if (navigator.sendBeacon(collectorUrl, new Blob([body], { type: 'application/json' }))) return;
+  }
+
+  fetch(collectorUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true,
+  }).then(response => {
+    if (!response.ok) throw new Error(`Collector responded ${response.status}`);
+  }).catch(err => {
+    customWarn('[Checkra Tracking] Failed to send events, will retry with the next batch:', err);
+    queue = [...events, ...queue].slice(-MAX_QUEUE_SIZE);
+  });
+}
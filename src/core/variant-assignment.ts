@@ -0,0 +1,87 @@
+import type { ExperimentConfig } from '../types';
+import { customWarn } from '../utils/logger';
+
+export const CONTROL_VARIANT_ID = 'control';
+const STORAGE_KEY_PREFIX = 'checkra_variant_';
+
+/** The arm a visitor was bucketed into for one experiment. */
+export interface VariantAssignment {
+  experimentId: string;
+  /** The assigned snapshot ID, or 'control' for the unmodified page. */
+  variantId: string;
+  /** Snapshot to apply, or null for control. */
+  snapshotId: string | null;
+  /** False on the visit where the assignment was first made. */
+  isReturning: boolean;
+}
+
+let currentAssignment: VariantAssignment | null = null;
+
+/** The assignment made on this page load, if an experiment is running. */
+export function getVariantAssignment(): VariantAssignment | null {
+  return currentAssignment;
+}
+
+function readStoredVariant(experimentId: string): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY_PREFIX + experimentId);
+  } catch {
+    return null;
+  }
+}
+
+function storeVariant(experimentId: string, variantId: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + experimentId, variantId);
+  } catch {
+    /* storage blocked – assignment lasts for this page view only */
+  }
+}
+
+/**
+ * Assigns the visitor to control or one of the experiment's snapshots, weighted by
+ * the configured weights. Assignments are sticky: a returning visitor keeps their
+ * arm as long as it is still part of the experiment.
+ */
+export function assignVariant(config: ExperimentConfig): VariantAssignment | null {
+  if (!config.id || !Array.isArray(config.variants)) {
+    customWarn('[Checkra Experiments] Experiment config needs an id and a variants array.', config);
+    return null;
+  }
+
+  const arms = [
+    { variantId: CONTROL_VARIANT_ID, weight: config.controlWeight },
+    ...config.variants.map(v => ({ variantId: v.snapshotId, weight: v.weight })),
+  ].filter(arm => arm.variantId && Number.isFinite(arm.weight) && arm.weight > 0);
+
+  if (arms.length === 0) {
+    customWarn(`[Checkra Experiments] Experiment ${config.id} has no arm with a positive weight.`);
+    return null;
+  }
+
+  const stored = readStoredVariant(config.id);
+  let variantId = stored && arms.some(arm => arm.variantId === stored) ? stored : null;
+  const isReturning = variantId !== null;
+
+  if (!variantId) {
+    const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+    let roll = Math.random() * total;
+    variantId = arms[arms.length - 1].variantId;
+    for (const arm of arms) {
+      roll -= arm.weight;
+      if (roll < 0) {
+        variantId = arm.variantId;
+        break;
+      }
+    }
+    storeVariant(config.id, variantId);
+  }
+
+  currentAssignment = {
+    experimentId: config.id,
+    variantId,
+    snapshotId: variantId === CONTROL_VARIANT_ID ? null : variantId,
+    isReturning,
+  };
+  return currentAssignment;
+}
@@ -1,14 +1,24 @@
 import { initCheckra } from './core/index';
 import './core/shortcut-handler';
-import { CheckraOptions } from './types';
+import { CheckraOptions, SnapshotChange } from './types';
 import { API_BASE } from './config';
 import { customWarn, customError } from './utils/logger';
 import { fetchProtected, isLoggedIn } from './auth/auth';
 import { getSiteId } from './utils/id';
+import { findFingerprintTarget, type FingerprintMatch } from './utils/element-fingerprint';
+import { HEAD_TARGET_SELECTOR, applyHeadTags } from './utils/head-tags';
+import { assignVariant } from './core/variant-assignment';
+import { configureTracking, setTrackingContext, track } from './core/tracker';
+import { onRouteChange, waitForDomToSettle } from './core/route-watcher';
 
 // Re-export core functions and types
 export { initCheckra } from './core/index';
-export type { CheckraOptions } from './types';
+export type { CheckraOptions, AiProvider, AiStreamEventHandler, ExperimentConfig, ExperimentVariant, AuditHistoryStore, AuditScoreEntry } from './types';
+export { LocalStorageAuditHistoryStore } from './services/audit-history';
+export { getVariantAssignment, type VariantAssignment } from './core/variant-assignment';
+export { track } from './core/tracker';
+export type { TrackedEvent } from './core/tracker';
+export { CheckraBackendProvider } from './services/checkra-backend-provider';
 
 // --- Auto-initialization logic ---
 
@@ -19,6 +29,7 @@ const defaultAutoInitOptions: CheckraOptions = {
   // No apiKey by default, triggers anonymous UUID
   isVisible: false, // Default to hidden
   enableRating: false, // ADDED: Default for enableRating in auto-init
+  persistFixes: false,
 };
 
 /**
@@ -124,6 +135,86 @@ function removeFlickerGuard(styleEl: HTMLStyleElement | null): void {
   }
 }
 
+/** Per-change outcome reported in the `checkraSnapshotApplied` DOM event. */
+export interface SnapshotChangeReport {
+  targetSelector: string;
+  applied: boolean;
+  strategy: FingerprintMatch['strategy'];
+  confidence: number;
+}
+
+/**
+ * Applies snapshot changes to the current DOM. `insertedNodes` remembers the nodes
+ * each change put on the page; changes whose nodes are still connected are skipped,
+ * so this can run again after client-side navigation without applying anything twice.
+ */
+function applySnapshotChanges(changes: SnapshotChange[], insertedNodes: Map<number, Node[]>): SnapshotChangeReport[] {
+  const reports: SnapshotChangeReport[] = [];
+  changes.forEach((change, index) => {
+    if (!change.targetSelector || typeof change.targetSelector !== 'string' || typeof change.appliedHtml !== 'string') return;
+    const report: SnapshotChangeReport = { targetSelector: change.targetSelector, applied: false, strategy: 'none', confidence: 0 };
+    reports.push(report);
+    try {
+      if (change.targetSelector === HEAD_TARGET_SELECTOR) {
+        // SEO fixes: replace the matching <head> tags in place (re-running just re-upserts them)
+        report.applied = applyHeadTags(change.appliedHtml).length > 0;
+        report.strategy = report.applied ? 'selector' : 'none';
+        report.confidence = report.applied ? 1 : 0;
+        return;
+      }
+      if (insertedNodes.get(index)?.some(node => node.isConnected)) {
+        report.applied = true;
+        report.strategy = 'selector';
+        report.confidence = 1;
+        return;
+      }
+      // Falls back to the content fingerprint when the selector no longer matches after a deploy
+      const match = findFingerprintTarget(change.targetSelector, change.fingerprint);
+      report.strategy = match.strategy;
+      report.confidence = match.confidence;
+      const targetElement = match.element;
+      if (targetElement) {
+        if (targetElement.parentNode) {
+          const template = document.createElement('template');
+          template.innerHTML = change.appliedHtml;
+          insertedNodes.set(index, Array.from(template.content.childNodes));
+          targetElement.replaceWith(template.content);
+          report.applied = true;
+          if (match.strategy === 'fingerprint') {
+            customWarn(`[Checkra Bootloader] Selector ${change.targetSelector} no longer matched; re-targeted by fingerprint (confidence ${match.confidence.toFixed(2)}).`);
+          }
+        } else {
+          customWarn(`[Checkra Bootloader] Target element for selector: ${change.targetSelector} has no parent. Cannot apply outerHTML.`);
+        }
+      } else {
+        customWarn(`[Checkra Bootloader] Target element not found for selector: ${change.targetSelector} (best fingerprint confidence ${match.confidence.toFixed(2)})`);
+      }
+    } catch (e) {
+      customError(`[Checkra Bootloader] Error applying change for selector ${change.targetSelector}:`, e);
+    }
+  });
+  return reports;
+}
+
+let stopWatchingRoutes: (() => void) | null = null;
+
+/**
+ * SPAs re-render on client-side navigation, which drops applied changes. When the
+ * visitor comes back to the snapshot's page, re-run it once the route has rendered.
+ * Other routes are left alone: the snapshot's selectors only describe its own page.
+ */
+function watchRoutesForSnapshot(snapshotId: string, changes: SnapshotChange[], insertedNodes: Map<number, Node[]>): void {
+  const snapshotPath = window.location.pathname;
+  stopWatchingRoutes?.();
+  stopWatchingRoutes = onRouteChange(() => {
+    if (window.location.pathname !== snapshotPath) return;
+    waitForDomToSettle().then(() => {
+      const reports = applySnapshotChanges(changes, insertedNodes);
+      document.dispatchEvent(new CustomEvent('checkraSnapshotApplied', { detail: { snapshotId, changes: reports, routeChange: true } }));
+    }).catch(err => customError('[Checkra Bootloader] Failed to re-apply snapshot after navigation:', err));
+  });
+}
+
 // Unified boot-loader logic for snapshots from API (?checkra-id=...)
 async function applySnapshotFromApi(snapshotId: string): Promise<void> {
   // Ensure DOM is ready before auth checks or siteId retrieval, as these might depend on it.
@@ -168,32 +259,21 @@ async function applySnapshotFromApi(snapshotId: string): Promise<void> {
     if (snapshot && snapshot.changes && Array.isArray(snapshot.changes) && snapshot.changes.length > 0) {
       // DOM should be ready here due to the check at the beginning of the function
       requestAnimationFrame(() => {
-        for (const change of snapshot.changes) {
-          if (change.targetSelector && typeof change.targetSelector === 'string' && typeof change.appliedHtml === 'string') {
-            try {
-              const targetElement = document.querySelector(change.targetSelector);
-              if (targetElement) {
-                if (targetElement.parentNode) {
-                  targetElement.outerHTML = change.appliedHtml;
-                } else {
-                  customWarn(`[Checkra Bootloader] Target element for selector: ${change.targetSelector} has no parent. Cannot apply outerHTML.`);
-                }
-              } else {
-                customWarn(`[Checkra Bootloader] Target element not found for selector: ${change.targetSelector}`);
-              }
-            } catch (e) {
-              customError(`[Checkra Bootloader] Error applying change for selector ${change.targetSelector}:`, e);
-            }
-          }
-        }
+        const changes = snapshot.changes as SnapshotChange[];
+        const insertedNodes = new Map<number, Node[]>();
+        const reports = applySnapshotChanges(changes, insertedNodes);
         removeFlickerGuard(guardStyle);
+        if (reports.some(r => r.applied)) setTrackingContext({ snapshotId });
+        document.dispatchEvent(new CustomEvent('checkraSnapshotApplied', { detail: { snapshotId, changes: reports } }));
         // After successfully applying, update the URL to remove the checkra-id to prevent re-application on refresh/back nav
-        // And to provide a cleaner URL if the user shares it.
-        if (window.history.replaceState) {
-          const cleanUrl = new URL(window.location.href);
+        // And to provide a cleaner URL if the user shares it. Experiment variants load without one,
+        // and the current history state is kept so SPA routers' back/forward keep working.
+        const cleanUrl = new URL(window.location.href);
+        if (window.history.replaceState && cleanUrl.searchParams.has('checkra-id')) {
           cleanUrl.searchParams.delete('checkra-id');
-          window.history.replaceState({ path: cleanUrl.toString() }, '', cleanUrl.toString());
+          window.history.replaceState(window.history.state, '', cleanUrl.toString());
         }
+        watchRoutesForSnapshot(snapshotId, changes, insertedNodes);
       });
     } else {
       customWarn("[Checkra Bootloader] Snapshot data from API is invalid, has no changes, or changes array is empty.", snapshot);
@@ -206,7 +286,7 @@ async function applySnapshotFromApi(snapshotId: string): Promise<void> {
 }
 
 // Renamed and simplified function
-function checkForCheckraIdInUrl(): void {
+function checkForCheckraIdInUrl(): boolean {
   if (typeof window !== 'undefined' && window.location && window.location.search) {
     const urlParams = new URLSearchParams(window.location.search);
     const snapshotId = urlParams.get('checkra-id'); // Use 'checkra-id' consistently
@@ -216,13 +296,48 @@ function checkForCheckraIdInUrl(): void {
       applySnapshotFromApi(snapshotId).catch(err => {
         customError("[Checkra Bootloader] Unhandled error in applySnapshotFromApi:", err);
       });
+      return true;
     }
   }
+  return false;
+}
+
+// A/B mode: stickily assign the visitor to control or a snapshot from config.experiment
+function runConfiguredExperiment(): void {
+  const experiment = getFinalConfig().experiment;
+  if (!experiment) return;
+
+  const assignment = assignVariant(experiment);
+  if (!assignment) return;
+
+  // Every event on this page view is attributed to the assigned arm; the impression
+  // is the denominator for per-variant conversion rates.
+  setTrackingContext({ experimentId: assignment.experimentId, variantId: assignment.variantId });
+  track('impression', { isReturning: assignment.isReturning });
+
+  // Announce once the DOM is ready so page scripts have had a chance to listen
+  const announce = () => document.dispatchEvent(new CustomEvent('checkraVariantAssigned', { detail: assignment }));
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', announce, { once: true });
+  } else {
+    announce();
+  }
+
+  if (assignment.snapshotId) {
+    applySnapshotFromApi(assignment.snapshotId).catch(err => {
+      customError(`[Checkra Bootloader] Unhandled error applying variant ${assignment.snapshotId}:`, err);
+    });
+  }
 }
 
 // Check if running in a browser environment
 if (typeof window !== 'undefined' && typeof document !== 'undefined') {
-  checkForCheckraIdInUrl(); // Updated function call
+  configureTracking(getFinalConfig().tracking);
+
+  // Preview links (?checkra-id=) override any running experiment
+  if (!checkForCheckraIdInUrl()) {
+    runConfiguredExperiment();
+  }
 
   const initialize = () => {
     // Check if already initialized
@@ -1,20 +1,60 @@
-import Settings from '../settings';
-import { getEffectiveApiKey, getCurrentAiSettings } from '../core/index';
+import { getCurrentAiSettings } from '../core/index';
 import { customWarn, customError } from '../utils/logger';
 // import html2canvas from 'html2canvas'; // Eager import removed
 import { CSS_ATOMIC_MAP } from '../utils/css-map';
 import { detectCssFramework, DetectedFramework } from '../utils/framework-detector';
 import { detectUiKit, UiKitDetection } from '../utils/ui-kit-detector';
 import { generateColorScheme } from '../utils/color-utils';
+import { CheckraBackendProvider } from './checkra-backend-provider';
 import {
   GenerateSuggestionRequestbody,
   AddRatingRequestBody,
+  AuditRequestBody,
   PageMetadata,
-  BackendPayloadMetadata
+  BackendPayloadMetadata,
+  AiProvider,
+  AiSettings,
+  AiStreamEventHandler
 } from '../types';
 
 let serviceEventEmitter: any = null; // Local reference to the event emitter
 
+// Transport for generate/audit/rate requests; swapped via CheckraOptions.aiProvider
+let aiProvider: AiProvider = new CheckraBackendProvider();
+
+/**
+ * Sets the AI provider used for all subsequent requests.
+ * Passing null/undefined restores the default Checkra backend provider.
+ */
+export function setAiProvider(provider: AiProvider | null | undefined): void {
+  aiProvider = provider ?? new CheckraBackendProvider();
+}
+
+// One controller per generate/audit stream in flight; an audit and a prompt can overlap
+const activeAbortControllers = new Set<AbortController>();
+
+/**
+ * Aborts every in-flight generate or audit stream.
+ * Each aborted request emits `aiCancelled` instead of an error.
+ * @returns true if a request was cancelled.
+ */
+export function cancelActiveRequest(): boolean {
+  if (activeAbortControllers.size === 0) return false;
+  activeAbortControllers.forEach(controller => controller.abort());
+  activeAbortControllers.clear();
+  return true;
+}
+
+function beginAbortableRequest(): AbortController {
+  const controller = new AbortController();
+  activeAbortControllers.add(controller);
+  return controller;
+}
+
+function endAbortableRequest(controller: AbortController): void {
+  activeAbortControllers.delete(controller);
+}
+
 // Type for the html2canvas function itself
 type Html2CanvasStatic = (element: HTMLElement, options?: Partial<any>) => Promise<HTMLCanvasElement>;
 // The above 'any' for options is a simplification; you might want to import Options type from html2canvas if needed elsewhere
@@ -220,7 +260,7 @@ function mapHexToUtilityToken(hex: string | undefined | null, frameworkName: str
 /**
  * Gathers metadata from the current page.
  */
-const getPageMetadata = async (): Promise<PageMetadata> => {
+export const getPageMetadata = async (): Promise<PageMetadata> => {
   const metadata: Partial<PageMetadata> = {};
 
   // 1. Title
@@ -286,15 +326,42 @@ const getPageMetadata = async (): Promise<PageMetadata> => {
 };
 
 /**
- * Base function for handling feedback/audit requests and streaming SSE responses.
+ * Maps named events from a provider's generate stream onto core events.
+ */
+const handleGenerateStreamEvent: AiStreamEventHandler = (eventName, data) => {
+  if (!serviceEventEmitter) return;
+  if (eventName === 'analysis') {
+    if (data && data.content) {
+      serviceEventEmitter.emit('aiResponseChunk', data.content);
+    }
+  } else if (eventName === 'domUpdateHtml') {
+    if (data && data.html && data.insertionMode) {
+      serviceEventEmitter.emit('aiDomUpdateReceived', {
+        html: data.html,
+        insertionMode: data.insertionMode,
+      });
+    } else {
+      customWarn('[AI Service] Received domUpdateHtml event with missing html or insertionMode:', data);
+    }
+  } else if (eventName === 'json-patch') {
+    serviceEventEmitter.emit('aiJsonPatch', { payload: data?.payload, originalHtml: data?.originalHtml || '' });
+  } else {
+    // For unforeseen named events, just forward them generically.
+    serviceEventEmitter.emit(eventName, data);
+  }
+};
+
+/**
+ * Base function for building feedback requests and streaming them through the active AI provider.
  */
 const fetchFeedbackBase = async (
-  apiUrl: string,
   promptText: string,
   selectedHtml: string | null,
   insertionMode: 'replace' | 'insertBefore' | 'insertAfter',
-  imageDataUrl?: string | null
+  imageDataUrl?: string | null,
+  elements?: Array<{ selector: string; html: string }>
 ): Promise<void> => {
+  const controller = beginAbortableRequest();
   try {
     const pageMeta = await getPageMetadata(); // Renamed to pageMeta for clarity
     const currentAiSettings = getCurrentAiSettings();
@@ -345,125 +412,39 @@ const fetchFeedbackBase = async (
       // cssDigests, frameworkDetection, uiKitDetection are now part of requestBody.metadata
     }
 
+    if (elements && elements.length > 0) {
+      requestBody.elements = elements.map(({ selector, html }) => ({
+        selector,
+        html: html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, ''),
+      }));
+    }
+
     // Emit the request body so checkra-impl can store it with the full metadata
     if (serviceEventEmitter) {
       serviceEventEmitter.emit('requestBodyPrepared', requestBody);
     }
 
-    const currentApiKey = getEffectiveApiKey();
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
-    if (currentApiKey) {
-      headers['Authorization'] = `Bearer ${currentApiKey}`;
-    } else {
-      customWarn('[Checkra Service] API key/anonymous ID not available for request.');
-    }
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: headers,
-      body: JSON.stringify(requestBody),
-    });
+    if (controller.signal.aborted) throw new DOMException('Request cancelled', 'AbortError');
 
-    if (!response.ok) {
-      let specificErrorMessage = `Request failed: ${response.status} ${response.statusText}`;
-      try {
-        const errorBodyText = await response.text();
-        if (errorBodyText) {
-          const errorJson = JSON.parse(errorBodyText);
-          if (errorJson && errorJson.error) {
-            specificErrorMessage = errorJson.error;
-          }
-        }
-      } catch (parseError) {
-        customWarn("[Checkra Service] Failed to parse error response body:", parseError);
-      }
-      throw new Error(specificErrorMessage);
-    }
-
-    if (!response.body) {
-      throw new Error("Response body is null, cannot process stream.");
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let currentEventType: string | null = null;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) {
-        if (buffer.trim()) {
-          if (buffer.startsWith('data:')) {
-            try {
-              const jsonString = buffer.substring(5).trim();
-              if (jsonString) {
-                const data = JSON.parse(jsonString);
-                if (data.type === 'json-patch') {
-                  let parsedPayload: any = data.payload;
-                  try { parsedPayload = JSON.parse(data.payload || jsonString); } catch (e) { /* ... */ }
-                  if (serviceEventEmitter) serviceEventEmitter.emit('aiJsonPatch', { payload: parsedPayload, originalHtml: data.originalHtml || '' });
-                } else if (data.content) {
-                  if (serviceEventEmitter) serviceEventEmitter.emit('aiResponseChunk', data.content);
-                } else { /* ... */ }
-              }
-            } catch (e) { /* ... */ }
-          }
-        }
-        if (serviceEventEmitter) serviceEventEmitter.emit('aiFinalized');
-        break;
-      }
-
-      buffer += decoder.decode(value, { stream: true });
-      let lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('event:')) {
-          currentEventType = line.substring(6).trim();
-        } else if (line.startsWith('data:')) {
-          try {
-            const jsonString = line.substring(5).trim();
-            if (jsonString) {
-              const parsedData = JSON.parse(jsonString);
-              if (currentEventType) {
-                if (currentEventType === 'analysis') {
-                  if (parsedData.content && serviceEventEmitter) {
-                    serviceEventEmitter.emit('aiResponseChunk', parsedData.content);
-                  }
-                } else if (currentEventType === 'domUpdateHtml') {
-                  if (parsedData.html && parsedData.insertionMode) {
-                    if (serviceEventEmitter) {
-                      serviceEventEmitter.emit('aiDomUpdateReceived', {
-                        html: parsedData.html,
-                        insertionMode: parsedData.insertionMode,
-                      });
-                    }
-                  } else {
-                    customWarn('[AI Service] Received domUpdateHtml event with missing html or insertionMode:', parsedData);
-                  }
-                } else {
-                  // For unforeseen named events, just forward them generically.
-                  if (serviceEventEmitter) {
-                    serviceEventEmitter.emit(currentEventType, parsedData);
-                  }
-                }
-                currentEventType = null;
-              } else {
-                // No currentEventType – ignore (protocol guarantees named events).
-              }
-            }
-          } catch (e) {
-            if (serviceEventEmitter) serviceEventEmitter.emit('aiError', `Error parsing stream data: ${e instanceof Error ? e.message : String(e)}`);
-            currentEventType = null;
-          }
-        }
-      }
+    // Drop any events a provider still delivers after the user pressed Stop
+    await aiProvider.generate(requestBody, (eventName, data) => {
+      if (!controller.signal.aborted) handleGenerateStreamEvent(eventName, data);
+    }, controller.signal);
+    if (serviceEventEmitter) {
+      if (controller.signal.aborted) serviceEventEmitter.emit('aiCancelled', { source: 'generate' });
+      else serviceEventEmitter.emit('aiFinalized');
     }
   } catch (error) {
+    if (controller.signal.aborted) {
+      if (serviceEventEmitter) serviceEventEmitter.emit('aiCancelled', { source: 'generate' });
+      return;
+    }
     customError("Error in fetchFeedbackBase:", error);
     if (serviceEventEmitter) { // Check if emitter is initialized
       serviceEventEmitter.emit('aiError', error instanceof Error ? error.message : String(error));
     }
+  } finally {
+    endAbortableRequest(controller);
   }
 };
 
@@ -474,46 +455,18 @@ export const fetchFeedback = async (
   imageDataUrl: string | null,
   promptText: string,
   selectedHtml: string | null,
-  insertionMode: 'replace' | 'insertBefore' | 'insertAfter'
+  insertionMode: 'replace' | 'insertBefore' | 'insertAfter',
+  elements?: Array<{ selector: string; html: string }>
 ): Promise<void> => {
-  const apiUrl = `${Settings.API_URL}/checkraCompletions/generate`;
-  return fetchFeedbackBase(apiUrl, promptText, selectedHtml, insertionMode, imageDataUrl);
+  return fetchFeedbackBase(promptText, selectedHtml, insertionMode, imageDataUrl, elements);
 };
 
 /**
  * Sends the rated fix to the backend.
  */
 export const sendFixRating = async (feedbackPayload: AddRatingRequestBody): Promise<void> => {
-  const apiUrl = `${Settings.API_URL}/checkraCompletions/rating`;
-  const currentApiKey = getEffectiveApiKey();
-  const headers: HeadersInit = { 'Content-Type': 'application/json' };
-  if (currentApiKey) {
-    headers['Authorization'] = `Bearer ${currentApiKey}`;
-  }
-
   try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: headers,
-      body: JSON.stringify(feedbackPayload),
-    });
-
-    if (!response.ok) {
-      let specificErrorMessage = `Rating submission failed: ${response.status} ${response.statusText}`;
-      try {
-        const errorBodyText = await response.text();
-        if (errorBodyText) {
-          const errorJson = JSON.parse(errorBodyText);
-          if (errorJson && errorJson.error) {
-            specificErrorMessage = errorJson.error;
-          }
-        }
-      } catch (parseError) {
-        customWarn("[AI Service] Failed to parse error response body for rating submission:", parseError);
-      }
-      throw new Error(specificErrorMessage);
-    }
-
+    await aiProvider.rate(feedbackPayload);
   } catch (error) {
     customError("Error in sendFixRating:", error);
     if (serviceEventEmitter) { // Check if emitter is initialized
@@ -544,8 +497,9 @@ export interface AuditSectionPayload {
 
 export const fetchAudit = async (
   sections: AuditSectionPayload[],
-  aiSettings?: Partial<import('../types').AiSettings>
+  aiSettings?: Partial<AiSettings>
 ): Promise<void> => {
+  const controller = beginAbortableRequest();
   try {
     if (!sections || sections.length === 0) {
       throw new Error('No sections provided for audit.');
@@ -554,79 +508,35 @@ export const fetchAudit = async (
     const pageMeta = await getPageMetadata();
     const currentAiSettings = aiSettings ? { ...getCurrentAiSettings(), ...aiSettings } : getCurrentAiSettings();
 
-    const requestBody: any = {
+    const requestBody: AuditRequestBody = {
       audit: true,
       sections: sections.map(s => ({ idx: s.idx, selector: s.selector, html: s.html, boundingRect: s.boundingRect })),
       metadata: pageMeta,
       aiSettings: currentAiSettings,
     };
 
-    const currentApiKey = getEffectiveApiKey();
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
-    if (currentApiKey) headers['Authorization'] = `Bearer ${currentApiKey}`;
-
-    const response = await fetch(`${Settings.API_URL}/checkraCompletions/audit`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok || !response.body) {
-      throw new Error(`Audit request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let currentEventType: string | null = null;
-
     const emit = (type: string, data: any) => {
       if (serviceEventEmitter) serviceEventEmitter.emit(type, data);
     };
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) {
-        if (buffer.trim()) {
-          if (buffer.startsWith('data:')) {
-            try {
-              const jsonString = buffer.substring(5).trim();
-              if (jsonString) {
-                const parsed = JSON.parse(jsonString);
-                if (currentEventType) emit(mapAuditEvent(currentEventType), parsed);
-              }
-            } catch {}
-          }
-        }
-        emit('auditComplete', { totalSections: sections.length });
-        break;
-      }
+    if (controller.signal.aborted) throw new DOMException('Request cancelled', 'AbortError');
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('event:')) {
-          currentEventType = line.substring(6).trim();
-        } else if (line.startsWith('data:')) {
-          try {
-            const jsonString = line.substring(5).trim();
-            if (!jsonString) continue;
-            const parsedData = JSON.parse(jsonString);
-            if (currentEventType) {
-              emit(mapAuditEvent(currentEventType), parsedData);
-              currentEventType = null;
-            }
-          } catch (err) {
-            emit('auditError', { section: -1, message: `Parse error: ${err instanceof Error ? err.message : String(err)}` });
-            currentEventType = null;
-          }
-        }
-      }
+    await aiProvider.audit(requestBody, (eventName, data) => {
+      if (!controller.signal.aborted) emit(mapAuditEvent(eventName), data);
+    }, controller.signal);
+    if (controller.signal.aborted) {
+      emit('aiCancelled', { source: 'audit' });
+    } else {
+      emit('auditComplete', { totalSections: sections.length });
     }
   } catch (err) {
+    if (controller.signal.aborted) {
+      if (serviceEventEmitter) serviceEventEmitter.emit('aiCancelled', { source: 'audit' });
+      return;
+    }
     if (serviceEventEmitter) serviceEventEmitter.emit('auditError', { section: -1, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    endAbortableRequest(controller);
   }
 };
 
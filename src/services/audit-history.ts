@@ -0,0 +1,104 @@
+import type { AuditHistoryStore, AuditScoreEntry, SectionScoreCard } from '../types';
+import { customWarn } from '../utils/logger';
+
+const STORAGE_KEY_PREFIX = 'checkra_audit_history::';
+/** Older runs are dropped beyond this, per section. */
+const MAX_ENTRIES_PER_SECTION = 20;
+
+/**
+ * Default store: one localStorage item per page, holding the last
+ * MAX_ENTRIES_PER_SECTION scorecards of each section.
+ */
+export class LocalStorageAuditHistoryStore implements AuditHistoryStore {
+  load(pageKey: string, selector: string): AuditScoreEntry[] {
+    return this.read(pageKey)[selector] ?? [];
+  }
+
+  save(entry: AuditScoreEntry): void {
+    const page = this.read(entry.pageKey);
+    page[entry.selector] = [...(page[entry.selector] ?? []), entry].slice(-MAX_ENTRIES_PER_SECTION);
+    localStorage.setItem(STORAGE_KEY_PREFIX + entry.pageKey, JSON.stringify(page));
+  }
+
+  private read(pageKey: string): Record<string, AuditScoreEntry[]> {
+    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + pageKey);
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Swapped via CheckraOptions.auditHistoryStore
+let historyStore: AuditHistoryStore = new LocalStorageAuditHistoryStore();
+
+/**
+ * Sets the store used for audit score history.
+ * Passing null/undefined restores the localStorage store.
+ */
+export function setAuditHistoryStore(store: AuditHistoryStore | null | undefined): void {
+  historyStore = store ?? new LocalStorageAuditHistoryStore();
+}
+
+/** Previous scorecards for a section, oldest first. Resolves to [] if the store fails. */
+export async function loadAuditScoreHistory(pageKey: string, selector: string): Promise<AuditScoreEntry[]> {
+  try {
+    const entries = await historyStore.load(pageKey, selector);
+    return Array.isArray(entries) ? [...entries].sort((a, b) => a.recordedAt - b.recordedAt) : [];
+  } catch (err) {
+    customWarn('[Checkra Audit History] Failed to load score history:', err);
+    return [];
+  }
+}
+
+export async function recordAuditScores(entry: AuditScoreEntry): Promise<void> {
+  try {
+    await historyStore.save(entry);
+  } catch (err) {
+    customWarn('[Checkra Audit History] Failed to save scores:', err);
+  }
+}
+
+export type AuditMetric = keyof SectionScoreCard;
+
+export interface AuditMetricInfo {
+  metric: AuditMetric;
+  label: string;
+  /** Lower reading-ease grades are better; everything else improves upwards. */
+  higherIsBetter: boolean;
+  format: (value: SectionScoreCard[AuditMetric]) => string;
+}
+
+export const AUDIT_METRICS: AuditMetricInfo[] = [
+  { metric: 'messageClarity', label: 'Message clarity', higherIsBetter: true, format: v => String(v) },
+  { metric: 'actionStrength', label: 'Action strength', higherIsBetter: true, format: v => String(v) },
+  { metric: 'trustCredibility', label: 'Trust & credibility', higherIsBetter: true, format: v => String(v) },
+  { metric: 'readingEase', label: 'Reading ease', higherIsBetter: false, format: v => `Grade ${v}` },
+];
+
+const CLARITY_POINTS: Record<SectionScoreCard['messageClarity'], number> = { A: 4, B: 3, C: 2, D: 1, F: 0 };
+
+/** Numeric value of a metric, so letter grades can be compared and charted. */
+export function metricValue(scores: SectionScoreCard, metric: AuditMetric): number {
+  const value = scores[metric];
+  return metric === 'messageClarity' ? CLARITY_POINTS[value as SectionScoreCard['messageClarity']] ?? 0 : Number(value) || 0;
+}
+
+/**
+ * One scorecard line per metric, with the previous value when there is one,
+ * e.g. "Action strength: 54 → 71 (+17)".
+ */
+export function describeScoreChanges(current: SectionScoreCard, previous?: SectionScoreCard): string[] {
+  return AUDIT_METRICS.map(({ metric, label, format }) => {
+    const now = format(current[metric]);
+    if (!previous || previous[metric] === undefined) return `${label}: ${now}`;
+    const before = format(previous[metric]);
+    if (before === now) return `${label}: ${now} (unchanged)`;
+    const diff = metricValue(current, metric) - metricValue(previous, metric);
+    const signed = metric === 'messageClarity' ? '' : ` (${diff > 0 ? '+' : ''}${diff})`;
+    return `${label}: ${before} → ${now}${signed}`;
+  });
+}
@@ -0,0 +1,107 @@
+import Settings from '../settings';
+import { getEffectiveApiKey } from '../core/index';
+import { customWarn } from '../utils/logger';
+import { streamSse } from './sse-client';
+import type {
+  AiProvider,
+  AiStreamEventHandler,
+  AddRatingRequestBody,
+  AuditRequestBody,
+  GenerateSuggestionRequestbody
+} from '../types';
+
+/**
+ * Default AI provider: talks to the hosted Checkra completions service over
+ * SSE (see sse-client.ts), resuming dropped streams via Last-Event-ID.
+ */
+export class CheckraBackendProvider implements AiProvider {
+  constructor(private baseUrl: string = Settings.API_URL) {}
+
+  async generate(requestBody: GenerateSuggestionRequestbody, onEvent: AiStreamEventHandler, signal?: AbortSignal): Promise<void> {
+    await streamSse(`${this.baseUrl}/checkraCompletions/generate`, {
+      headers: this.buildHeaders(true),
+      body: JSON.stringify(requestBody),
+      signal,
+      toError: async response => new Error(await this.readErrorMessage(response, `Request failed: ${response.status} ${response.statusText}`)),
+      onMessage: ({ event, data }) => {
+        if (!data.trim()) return;
+        let parsedData: any;
+        try {
+          parsedData = JSON.parse(data);
+        } catch (e) {
+          onEvent('aiError', `Error parsing stream data: ${e instanceof Error ? e.message : String(e)}`);
+          return;
+        }
+        if (event === 'message') {
+          // Unnamed events carry either a JSON patch or a plain content chunk
+          if (parsedData.type === 'json-patch') {
+            let parsedPayload: any = parsedData.payload;
+            try { parsedPayload = JSON.parse(parsedData.payload || data); } catch (e) { /* keep raw payload */ }
+            onEvent('json-patch', { payload: parsedPayload, originalHtml: parsedData.originalHtml || '' });
+          } else if (parsedData.content) {
+            onEvent('analysis', { content: parsedData.content });
+          }
+          return;
+        }
+        onEvent(event, parsedData);
+      },
+    });
+  }
+
+  async audit(requestBody: AuditRequestBody, onEvent: AiStreamEventHandler, signal?: AbortSignal): Promise<void> {
+    await streamSse(`${this.baseUrl}/checkraCompletions/audit`, {
+      headers: this.buildHeaders(false),
+      body: JSON.stringify(requestBody),
+      signal,
+      toError: async response => new Error(`Audit request failed: ${response.status} ${response.statusText}`),
+      onMessage: ({ event, data }) => {
+        if (!data.trim()) return;
+        // Audit events are always named; the section index travels in the payload
+        if (event === 'message') return;
+        try {
+          onEvent(event, JSON.parse(data));
+        } catch (err) {
+          onEvent('auditError', { section: -1, message: `Parse error: ${err instanceof Error ? err.message : String(err)}` });
+        }
+      },
+    });
+  }
+
+  async rate(payload: AddRatingRequestBody): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/checkraCompletions/rating`, {
+      method: 'POST',
+      headers: this.buildHeaders(false),
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(await this.readErrorMessage(response, `Rating submission failed: ${response.status} ${response.statusText}`));
+    }
+  }
+
+  private buildHeaders(warnIfMissingKey: boolean): HeadersInit {
+    const currentApiKey = getEffectiveApiKey();
+    const headers: HeadersInit = { 'Content-Type': 'application/json' };
+    if (currentApiKey) {
+      headers['Authorization'] = `Bearer ${currentApiKey}`;
+    } else if (warnIfMissingKey) {
+      customWarn('[Checkra Service] API key/anonymous ID not available for request.');
+    }
+    return headers;
+  }
+
+  private async readErrorMessage(response: Response, fallback: string): Promise<string> {
+    try {
+      const errorBodyText = await response.text();
+      if (errorBodyText) {
+        const errorJson = JSON.parse(errorBodyText);
+        if (errorJson && errorJson.error) {
+          return errorJson.error;
+        }
+      }
+    } catch (parseError) {
+      customWarn("[Checkra Service] Failed to parse error response body:", parseError);
+    }
+    return fallback;
+  }
+}
@@ -0,0 +1,194 @@
+/*
+ * Minimal Server-Sent Events client shared by the generate and audit streams.
+ * Unlike EventSource it works over POST, and it resumes a dropped stream by
+ * re-sending the request with a `Last-Event-ID` header.
+ */
+
+export interface SseMessage {
+  /** Event name from the `event:` field, or 'message' when none was given. */
+  event: string;
+  /** All `data:` lines of the event joined with '\n'. */
+  data: string;
+  /** Last event ID seen so far (from this or an earlier event). */
+  id: string | null;
+}
+
+export interface SseStreamOptions {
+  method?: string;
+  headers?: HeadersInit;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+  /** Reconnect attempts after a network drop before giving up. @default 3 */
+  maxRetries?: number;
+  /** Called for every dispatched event. Heartbeats and comments are not dispatched. */
+  onMessage: (message: SseMessage) => void;
+  /** Builds the error thrown for a non-2xx response. */
+  toError?: (response: Response) => Promise<Error>;
+}
+
+const DEFAULT_RETRY_MS = 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const HEARTBEAT_EVENTS = new Set(['heartbeat', 'ping']);
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ * Feed it decoded text; it calls `onMessage` whenever a blank line ends an event.
+ */
+export class SseParser {
+  public lastEventId: string | null = null;
+  public retryMs: number | null = null;
+
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+
+  constructor(private onMessage: (message: SseMessage) => void) {}
+
+  feed(chunk: string): void {
+    let text = this.buffer + chunk;
+    // A trailing CR may be the first half of a CRLF split across chunks
+    const endsWithCr = text.endsWith('\r');
+    if (endsWithCr) text = text.slice(0, -1);
+    const lines = text.split(/\r\n|\r|\n/);
+    this.buffer = (lines.pop() ?? '') + (endsWithCr ? '\r' : '');
+    for (const line of lines) this.processLine(line);
+  }
+
+  /**
+   * Processes whatever is left once the stream ends. Servers do not always
+   * terminate the final event with a blank line, so a pending event is dispatched.
+   */
+  flush(): void {
+    const rest = this.buffer.replace(/\r$/, '');
+    this.buffer = '';
+    if (rest) this.processLine(rest);
+    this.dispatch();
+  }
+
+  /** Drops a partially received event (e.g. after a dropped connection). Keeps lastEventId/retry. */
+  reset(): void {
+    this.buffer = '';
+    this.eventType = '';
+    this.dataLines = [];
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // comment / keep-alive
+
+    const colonIdx = line.indexOf(':');
+    const field = colonIdx === -1 ? line : line.slice(0, colonIdx);
+    let value = colonIdx === -1 ? '' : line.slice(colonIdx + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event': this.eventType = value; break;
+      case 'data': this.dataLines.push(value); break;
+      case 'id': if (!value.includes('\0')) this.lastEventId = value; break;
+      case 'retry': if (/^\d+$/.test(value)) this.retryMs = parseInt(value, 10); break;
+      default: break; // unknown fields are ignored per spec
+    }
+  }
+
+  private dispatch(): void {
+    const event = this.eventType || 'message';
+    const hasData = this.dataLines.length > 0;
+    const data = this.dataLines.join('\n');
+    this.eventType = '';
+    this.dataLines = [];
+    if (!hasData || HEARTBEAT_EVENTS.has(event)) return;
+    this.onMessage({ event, data, id: this.lastEventId });
+  }
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request cancelled', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Sends a request and streams its SSE response into `options.onMessage`.
+ * Resolves when the server closes the stream. If the connection drops after at
+ * least one event carried an `id:`, the request is re-sent with `Last-Event-ID`
+ * (waiting for the server's `retry:` delay) up to `maxRetries` times.
+ */
+export async function streamSse(url: string, options: SseStreamOptions): Promise<void> {
+  const parser = new SseParser(options.onMessage);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let attempt = 0;
+
+  const canResume = (err: unknown): boolean =>
+    !isAbortError(err) && !options.signal?.aborted && parser.lastEventId !== null && attempt < maxRetries;
+
+  while (true) {
+    const headers = new Headers(options.headers);
+    headers.set('Accept', 'text/event-stream');
+    if (parser.lastEventId !== null) headers.set('Last-Event-ID', parser.lastEventId);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: options.method ?? 'POST',
+        headers,
+        body: options.body,
+        signal: options.signal,
+      });
+    } catch (err) {
+      if (!canResume(err)) throw err;
+      attempt++;
+      await waitForRetry(parser.retryMs ?? DEFAULT_RETRY_MS, options.signal);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw options.toError
+        ? await options.toError(response)
+        : new Error(`Request failed: ${response.status} ${response.statusText}`);
+    }
+    if (!response.body) {
+      throw new Error("Response body is null, cannot process stream.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let readError: unknown = null;
+
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        readError = err;
+        break;
+      }
+      if (chunk.done) {
+        parser.feed(decoder.decode());
+        parser.flush();
+        return;
+      }
+      parser.feed(decoder.decode(chunk.value, { stream: true }));
+      attempt = 0; // data is flowing again
+    }
+
+    if (!canResume(readError)) throw readError;
+    parser.reset();
+    attempt++;
+    await waitForRetry(parser.retryMs ?? DEFAULT_RETRY_MS, options.signal);
+  }
+}
@@ -0,0 +1,120 @@
+import { CONTROL_VARIANT_ID } from '../core/variant-assignment';
+
+/** Aggregated counts for one experiment arm, as returned by the stats endpoint. */
+export interface VariantStatsInput {
+  variantId: string;
+  impressions: number;
+  /** Conversions per goal name (the `data-checkra-goal` value or `track()` event name). */
+  conversions: Record<string, number>;
+}
+
+/**
+ * Response of `tracking.statsUrl`. Any endpoint (or static JSON file) returning
+ * this shape works.
+ */
+export interface ExperimentStatsResponse {
+  experimentId?: string;
+  variants: VariantStatsInput[];
+}
+
+export type SignificanceLevel = 'baseline' | 'significant' | 'trending' | 'not significant' | 'insufficient data';
+
+export interface VariantStatsRow {
+  variantId: string;
+  impressions: number;
+  conversions: number;
+  /** conversions / impressions, 0..1 */
+  rate: number;
+  /** Relative change of `rate` vs control, or null for control / when control has no conversions. */
+  lift: number | null;
+  pValue: number | null;
+  significance: SignificanceLevel;
+}
+
+export interface ExperimentStatsSummary {
+  experimentId: string | null;
+  goal: string | null;
+  goals: string[];
+  rows: VariantStatsRow[];
+}
+
+/** Below this many impressions per arm the z-test is not meaningful. */
+const MIN_IMPRESSIONS = 30;
+
+export async function fetchExperimentStats(statsUrl: string, experimentId?: string): Promise<ExperimentStatsResponse> {
+  const url = new URL(statsUrl, window.location.href);
+  if (experimentId) url.searchParams.set('experimentId', experimentId);
+
+  const response = await fetch(url.toString(), { method: 'GET', headers: { 'Accept': 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Stats request failed: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json();
+  if (!data || !Array.isArray(data.variants)) {
+    throw new Error('Stats response is missing a "variants" array.');
+  }
+  return data as ExperimentStatsResponse;
+}
+
+// Abramowitz & Stegun 7.1.26, max error ~1.5e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** Two-sided p-value of a two-proportion z-test, or null if it cannot be computed. */
+export function twoProportionPValue(conversionsA: number, impressionsA: number, conversionsB: number, impressionsB: number): number | null {
+  if (impressionsA <= 0 || impressionsB <= 0) return null;
+  const pooled = (conversionsA + conversionsB) / (impressionsA + impressionsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / impressionsA + 1 / impressionsB));
+  if (!standardError) return null;
+  const z = (conversionsB / impressionsB - conversionsA / impressionsA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Turns raw per-variant counts into rows for one goal. When no goal is given the
+ * goal with the most conversions is used. Every variant is compared to control.
+ */
+export function summarizeExperimentStats(stats: ExperimentStatsResponse, goal?: string): ExperimentStatsSummary {
+  const totals = new Map<string, number>();
+  stats.variants.forEach(v => Object.entries(v.conversions || {}).forEach(([name, count]) => {
+    totals.set(name, (totals.get(name) || 0) + (Number(count) || 0));
+  }));
+  const goals = Array.from(totals.keys()).sort((a, b) => (totals.get(b) || 0) - (totals.get(a) || 0));
+  const activeGoal = goal && totals.has(goal) ? goal : goals[0] ?? null;
+
+  const control = stats.variants.find(v => v.variantId === CONTROL_VARIANT_ID);
+  const controlImpressions = control?.impressions || 0;
+  const controlConversions = control && activeGoal ? Number(control.conversions?.[activeGoal]) || 0 : 0;
+  const controlRate = controlImpressions > 0 ? controlConversions / controlImpressions : 0;
+
+  const rows = stats.variants.map((v): VariantStatsRow => {
+    const impressions = Number(v.impressions) || 0;
+    const conversions = activeGoal ? Number(v.conversions?.[activeGoal]) || 0 : 0;
+    const rate = impressions > 0 ? conversions / impressions : 0;
+
+    if (v.variantId === CONTROL_VARIANT_ID) {
+      return { variantId: v.variantId, impressions, conversions, rate, lift: null, pValue: null, significance: 'baseline' };
+    }
+
+    const lift = control && controlRate > 0 ? (rate - controlRate) / controlRate : null;
+    if (!control || impressions < MIN_IMPRESSIONS || controlImpressions < MIN_IMPRESSIONS) {
+      return { variantId: v.variantId, impressions, conversions, rate, lift, pValue: null, significance: 'insufficient data' };
+    }
+    const pValue = twoProportionPValue(controlConversions, controlImpressions, conversions, impressions);
+    const significance: SignificanceLevel = pValue === null
+      ? 'insufficient data'
+      : pValue < 0.05 ? 'significant' : pValue < 0.1 ? 'trending' : 'not significant';
+    return { variantId: v.variantId, impressions, conversions, rate, lift, pValue, significance };
+  });
+
+  return { experimentId: stats.experimentId ?? null, goal: activeGoal, goals, rows };
+}
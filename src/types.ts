@@ -1,6 +1,7 @@
 import type { CheckraAPI } from './core/index'; // type-only import to avoid runtime cycle
 import { DetectedFramework } from './utils/framework-detector';
 import { UiKitDetection } from './utils/ui-kit-detector';
+import type { ElementFingerprint } from './utils/element-fingerprint';
 
 /**
  * Configuration options for the Checkra feedback module.
@@ -29,6 +30,73 @@ export interface CheckraOptions {
    * @default false
    */
   enableRating?: boolean;
+
+  /**
+   * Whether to keep applied fixes in a local IndexedDB session store and re-apply them on reload.
+   * Fixes are stored per page (origin + path), so edits on a multi-page site survive navigation.
+   * Discarding a fix removes it from the store.
+   * @default false
+   */
+  persistFixes?: boolean;
+
+  /**
+   * Optional AI provider used for generation, audits and ratings.
+   * Lets the sidebar talk to a self-hosted gateway or a local stand-in instead of the Checkra backend.
+   * Cannot be set via `data-checkra-config` since it must be an object with methods.
+   * @default CheckraBackendProvider (the hosted Checkra service)
+   */
+  aiProvider?: AiProvider;
+
+  /**
+   * Runs an A/B test in the bootloader: each visitor is stickily assigned to control
+   * or one of the published snapshots, and the chosen snapshot is applied.
+   * A `?checkra-id=` preview link always takes precedence over the assignment.
+   * @default undefined (no experiment)
+   */
+  experiment?: ExperimentConfig;
+
+  /**
+   * Where `checkra.track()` and `data-checkra-goal` events are sent, and how they are batched.
+   * Without a `collectorUrl` events are buffered but never sent.
+   * @default undefined
+   */
+  tracking?: TrackingOptions;
+
+  /**
+   * Where audit scorecards are kept between runs, so `/audit` can show what changed.
+   * Cannot be set via `data-checkra-config` since it must be an object with methods.
+   * @default LocalStorageAuditHistoryStore
+   */
+  auditHistoryStore?: AuditHistoryStore;
+}
+
+export interface TrackingOptions {
+  /** Endpoint that receives `POST { events: TrackedEvent[] }`. */
+  collectorUrl?: string;
+  /** Send as soon as this many events are buffered. @default 20 */
+  batchSize?: number;
+  /** Send buffered events at least this often. @default 5000 */
+  flushIntervalMs?: number;
+  /**
+   * Endpoint (or static JSON file) with aggregated per-variant counts, shown by `/stats`.
+   * Must return `{ experimentId?, variants: [{ variantId, impressions, conversions: { [goal]: count } }] }`.
+   */
+  statsUrl?: string;
+}
+
+export interface ExperimentVariant {
+  /** ID of a published snapshot (from `/publish`). */
+  snapshotId: string;
+  /** Relative traffic weight. */
+  weight: number;
+}
+
+export interface ExperimentConfig {
+  /** Stable experiment ID; assignments are remembered per ID. */
+  id: string;
+  /** Relative traffic weight of the unmodified page. */
+  controlWeight: number;
+  variants: ExperimentVariant[];
 }
 
 // --- Global Augmentation for window.Checkra --- 
@@ -83,6 +151,18 @@ export interface GenerateSuggestionRequestbody {
   metadata: BackendPayloadMetadata;
   aiSettings: AiSettings;
   insertionMode: 'replace' | 'insertBefore' | 'insertAfter';
+  /** Set for multi-element (shift-click) prompts: each target in selection order. `html` then holds all of them. */
+  elements?: Array<{ selector: string; html: string }>;
+}
+
+/**
+ * One change inside a published/saved snapshot.
+ */
+export interface SnapshotChange {
+  targetSelector: string;
+  appliedHtml: string;
+  /** Describes the original target so the bootloader can re-find it if the selector breaks. */
+  fingerprint?: ElementFingerprint;
 }
 
 export interface AddRatingRequestBody extends GenerateSuggestionRequestbody {
@@ -93,6 +173,44 @@ export interface AddRatingRequestBody extends GenerateSuggestionRequestbody {
   tags?: string[];
 }
 
+export interface AuditRequestBody {
+  audit: true;
+  sections: Array<{
+    idx: number;
+    selector: string;
+    html: string;
+    boundingRect?: { top: number; left: number; width: number; height: number };
+  }>;
+  metadata: PageMetadata;
+  aiSettings: AiSettings;
+}
+
+// --- AI Provider ---
+/**
+ * Receives named stream events from a provider.
+ * Generate streams use `analysis` ({ content }), `domUpdateHtml` ({ html, insertionMode })
+ * and `json-patch` ({ payload, originalHtml }). Audit streams use `rating`, `analysis`,
+ * `domUpdateHtml`, `auditError` and `auditComplete`, each carrying a `section` index.
+ * Unknown event names are forwarded to the event emitter unchanged.
+ */
+export type AiStreamEventHandler = (eventName: string, data: any) => void;
+
+/**
+ * Transport used by the sidebar to reach an AI backend.
+ * Implementations should throw (or reject) on failure; the AI service turns that into an error event.
+ */
+export interface AiProvider {
+  /**
+   * Streams a fix/analysis for the given prompt, reporting events through `onEvent`. Resolves when the stream ends.
+   * `signal` is aborted when the user presses Stop; implementations should stop reading and reject.
+   */
+  generate(requestBody: GenerateSuggestionRequestbody, onEvent: AiStreamEventHandler, signal?: AbortSignal): Promise<void>;
+  /** Streams per-section audit results, reporting events through `onEvent`. Resolves when the stream ends. */
+  audit(requestBody: AuditRequestBody, onEvent: AiStreamEventHandler, signal?: AbortSignal): Promise<void>;
+  /** Submits a rating for an applied fix. */
+  rate(payload: AddRatingRequestBody): Promise<void>;
+}
+
 // --- New Shared Interfaces ---
 export interface BrandInferred {
   primary: string;
@@ -121,6 +239,27 @@ export interface SectionScoreCard {
   trustCredibility: number; // 0-100
   readingEase: number; // grade level 3-12
 }
+
+/** One scorecard for one section, as kept in the audit history. */
+export interface AuditScoreEntry {
+  /** origin + pathname of the audited page. */
+  pageKey: string;
+  /** Stable selector of the audited section. */
+  selector: string;
+  label?: string;
+  scores: SectionScoreCard;
+  recordedAt: number;
+}
+
+/**
+ * Persists audit scorecards per page and section. Either method may be sync or async;
+ * failures are logged and never interrupt an audit.
+ */
+export interface AuditHistoryStore {
+  /** Entries for one section, oldest first. */
+  load(pageKey: string, selector: string): Promise<AuditScoreEntry[]> | AuditScoreEntry[];
+  save(entry: AuditScoreEntry): Promise<void> | void;
+}
 // --------------------------------
 
 // --- End Updated and New Interfaces ---
@@ -130,6 +269,7 @@ export interface ConversationItem {
   type: 'user' | 'ai' | 'usermessage' | 'error';
   content: string;
   isStreaming?: boolean;
+  isCancelled?: boolean;
   fix?: {
     originalHtml: string;
     fixedHtml: string;
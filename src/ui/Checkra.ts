@@ -11,14 +11,16 @@ export default class Checkra {
   private static instance: Checkra | null = null;
   private initialVisibility: boolean; // Store initial visibility
   private enableRating: boolean; // ADDED: Store enableRating option
+  private persistFixes: boolean;
 
-  private constructor(settingsModal: SettingsModal, initialVisibility: boolean = false, enableRating: boolean = false) {
+  private constructor(settingsModal: SettingsModal, initialVisibility: boolean = false, enableRating: boolean = false, persistFixes: boolean = false) {
     this.settingsModal = settingsModal;
     this.initialVisibility = initialVisibility;
     this.enableRating = enableRating; // Store it
+    this.persistFixes = persistFixes;
     this.checkraDOM = new CheckraDOM();
     // Pass initialVisibility and enableRating to FeedbackViewerImpl constructor
-    this.checkraImplementation = new CheckraImplementation(this.handleToggle.bind(this), this.initialVisibility, this.enableRating);
+    this.checkraImplementation = new CheckraImplementation(this.handleToggle.bind(this), this.initialVisibility, this.enableRating, this.persistFixes);
     
     // Listen for core requests to show/hide
     eventEmitter.on('showViewerRequest', this.boundShowRequested);
@@ -34,13 +36,13 @@ export default class Checkra {
   private boundShowRequested = () => this.showPanel();
   private boundHideRequested = () => this.hidePanel();
 
-  public static getInstance(settingsModal: SettingsModal, initialVisibility: boolean = false, enableRating: boolean = false): Checkra {
+  public static getInstance(settingsModal: SettingsModal, initialVisibility: boolean = false, enableRating: boolean = false, persistFixes: boolean = false): Checkra {
     if (!Checkra.instance) {
       if (!settingsModal) {
           console.error('[FeedbackViewer] getInstance called without settingsModal for new instance creation!');
           throw new Error('SettingsModal instance is required to create a new FeedbackViewer instance.');
       }
-      Checkra.instance = new Checkra(settingsModal, initialVisibility, enableRating);
+      Checkra.instance = new Checkra(settingsModal, initialVisibility, enableRating, persistFixes);
     }
     // If instance exists, should we update its visibility or warn if initialVisibility differs?
     // For now, it returns the existing instance. The initial visibility is set at creation.
@@ -0,0 +1,91 @@
+export type AuditSectionStatus = 'queued' | 'auditing' | 'scored' | 'fixed' | 'error' | 'skipped';
+
+const STATUS_LABELS: Record<AuditSectionStatus, string> = {
+  queued: 'Queued',
+  auditing: 'Auditing…',
+  scored: 'Scored',
+  fixed: 'Fix applied',
+  error: 'Failed',
+  skipped: 'Skipped',
+};
+
+/**
+ * Live per-section progress list for a full-page audit. Each row is a button
+ * that scrolls the page to its section.
+ */
+export class AuditProgressView {
+  readonly element: HTMLDivElement;
+  private header: HTMLDivElement;
+  private rows = new Map<number, { row: HTMLLIElement; status: HTMLSpanElement; detail: HTMLSpanElement; state: AuditSectionStatus }>();
+
+  constructor(sections: Array<{ idx: number; label: string }>, onJump: (idx: number) => void) {
+    this.element = document.createElement('div');
+    this.element.className = 'checkra-audit-progress';
+
+    this.header = document.createElement('div');
+    this.header.className = 'checkra-audit-progress-header';
+    this.element.appendChild(this.header);
+
+    const list = document.createElement('ol');
+    list.className = 'checkra-audit-progress-list';
+    sections.forEach(({ idx, label }) => {
+      const row = document.createElement('li');
+      row.className = 'checkra-audit-progress-row';
+
+      const jumpButton = document.createElement('button');
+      jumpButton.type = 'button';
+      jumpButton.className = 'checkra-audit-jump';
+      jumpButton.textContent = label;
+      jumpButton.title = 'Scroll to this section';
+      jumpButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        onJump(idx);
+      });
+
+      const detail = document.createElement('span');
+      detail.className = 'checkra-audit-progress-detail';
+      const status = document.createElement('span');
+      status.className = 'checkra-audit-progress-status';
+
+      row.append(jumpButton, detail, status);
+      list.appendChild(row);
+      this.rows.set(idx, { row, status, detail, state: 'queued' });
+      this.applyStatus(idx, 'queued');
+    });
+    this.element.appendChild(list);
+    this.updateHeader();
+  }
+
+  setStatus(idx: number, status: AuditSectionStatus, detail?: string): void {
+    const entry = this.rows.get(idx);
+    if (!entry) return;
+    // A fixed section was also scored; don't let a late rating downgrade it
+    if (entry.state === 'fixed' && status === 'scored') status = 'fixed';
+    this.applyStatus(idx, status);
+    if (detail !== undefined) entry.detail.textContent = detail;
+    this.updateHeader();
+  }
+
+  /** Marks sections that are still queued or in flight (all of them, or only `indices`). */
+  settlePending(status: AuditSectionStatus, indices?: number[]): void {
+    this.rows.forEach((entry, idx) => {
+      if (indices && !indices.includes(idx)) return;
+      if (entry.state === 'queued' || entry.state === 'auditing') this.applyStatus(idx, status);
+    });
+    this.updateHeader();
+  }
+
+  private applyStatus(idx: number, status: AuditSectionStatus): void {
+    const entry = this.rows.get(idx)!;
+    entry.state = status;
+    entry.status.textContent = STATUS_LABELS[status];
+    entry.row.dataset.status = status;
+  }
+
+  private updateHeader(): void {
+    const states = Array.from(this.rows.values()).map(r => r.state);
+    const done = states.filter(s => s !== 'queued' && s !== 'auditing').length;
+    const scored = states.filter(s => s === 'scored' || s === 'fixed').length;
+    this.header.textContent = `Full-page audit · ${done}/${states.length} sections done · ${scored} scored`;
+  }
+}
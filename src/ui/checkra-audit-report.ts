@@ -0,0 +1,271 @@
+import { Marked } from 'marked';
+import type { PageMetadata, SectionScoreCard } from '../types';
+import type { AppliedFixInfo } from './checkra-fix-manager';
+import { customWarn } from '../utils/logger';
+import { downloadTextFile, fileNameHost } from '../utils/download';
+import { CHECKRA_UI_SELECTOR } from '../utils/checkra-ui';
+
+export type AuditReportFormat = 'html' | 'json' | 'md';
+
+/** What the panel knows about one audited section when the report is built. */
+export interface AuditReportSectionInput {
+  index: number;
+  label: string;
+  selector: string;
+  originalHtml: string;
+  scores?: SectionScoreCard;
+  analysis?: string;
+  /** The audit fix for this section, if it is still applied. */
+  fix?: AppliedFixInfo;
+}
+
+export interface AuditReportSection {
+  /** 1-based, as shown in the panel. */
+  number: number;
+  label: string;
+  selector: string;
+  scores: SectionScoreCard | null;
+  analysis: string | null;
+  beforeHtml: string;
+  /** Null when no fix was generated or it was discarded. */
+  afterHtml: string | null;
+  /** JPEG data URLs; null when the element could not be captured. */
+  screenshots: { before: string | null; after: string | null };
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  page: PageMetadata;
+  sections: AuditReportSection[];
+}
+
+const SCREENSHOT_MAX_WIDTH = 1200;
+const SCREENSHOT_QUALITY = 0.8;
+
+function stripCheckraAttributes(html: string): string {
+  return html
+    .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
+    .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '');
+}
+
+async function captureElement(element: Element | null | undefined): Promise<string | null> {
+  if (!(element instanceof HTMLElement) || element.getBoundingClientRect().height === 0) return null;
+  try {
+    const html2canvas = (await import('html2canvas')).default;
+    const width = element.getBoundingClientRect().width;
+    const canvas = await html2canvas(element, {
+      useCORS: true,
+      logging: false,
+      scale: width > SCREENSHOT_MAX_WIDTH ? SCREENSHOT_MAX_WIDTH / width : 1,
+      // Fix controls and overlays are panel chrome, not page content
+      ignoreElements: (el: Element) => el.matches(CHECKRA_UI_SELECTOR),
+    });
+    return canvas.toDataURL('image/jpeg', SCREENSHOT_QUALITY);
+  } catch (err) {
+    customWarn('[Checkra Audit Report] Screenshot failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Captures `shown` with `hidden` taken out of the layout, then restores both,
+ * so a toggled fix can be photographed in either state without changing it.
+ */
+async function captureShowing(shown: HTMLElement, hidden: HTMLElement | null): Promise<string | null> {
+  const shownDisplay = shown.style.display;
+  const hiddenDisplay = hidden?.style.display ?? '';
+  shown.style.display = '';
+  if (hidden) hidden.style.display = 'none';
+  try {
+    return await captureElement(shown);
+  } finally {
+    shown.style.display = shownDisplay;
+    if (hidden) hidden.style.display = hiddenDisplay;
+  }
+}
+
+async function captureSection(input: AuditReportSectionInput): Promise<AuditReportSection['screenshots']> {
+  const fix = input.fix;
+  const content = fix?.appliedWrapperElement?.querySelector<HTMLElement>(':scope > .checkra-applied-fix-content') ?? null;
+  if (!fix || !content) {
+    const live = document.querySelector(`[data-checkra-fix-id="audit-placeholder-${input.index}"]`) ?? document.querySelector(input.selector);
+    return { before: await captureElement(live), after: null };
+  }
+  if (fix.insertionMode === 'replace') {
+    const original = fix.originalContentElement ?? null;
+    return {
+      before: original ? await captureShowing(original, content) : null,
+      after: await captureShowing(content, original),
+    };
+  }
+  return {
+    before: await captureElement(fix.originalElementRef),
+    after: await captureShowing(content, null),
+  };
+}
+
+/** Collects scores, analyses, HTML and screenshots for every audited section. */
+export async function buildAuditReport(sections: AuditReportSectionInput[], page: PageMetadata): Promise<AuditReport> {
+  const reportSections: AuditReportSection[] = [];
+  // Sequential: html2canvas clones the whole document per capture
+  for (const input of [...sections].sort((a, b) => a.index - b.index)) {
+    reportSections.push({
+      number: input.index + 1,
+      label: input.label,
+      selector: input.selector,
+      scores: input.fix?.auditScores ?? input.scores ?? null,
+      analysis: input.fix?.auditAnalysis ?? input.analysis ?? null,
+      beforeHtml: stripCheckraAttributes(input.fix?.originalOuterHTML ?? input.originalHtml),
+      afterHtml: input.fix ? stripCheckraAttributes(input.fix.fixedOuterHTML) : null,
+      screenshots: await captureSection(input),
+    });
+  }
+  return { generatedAt: new Date().toISOString(), page, sections: reportSections };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Markdown for AI-written analysis in the downloadable report. Raw HTML is shown as
+ * text and script URLs are dropped, so a report can't run code when it is opened.
+ */
+const analysisMarkdown = new Marked({
+  renderer: {
+    html: ({ text }) => escapeHtml(text),
+  },
+  walkTokens: (token) => {
+    if ((token.type === 'link' || token.type === 'image') && /^\s*(javascript|vbscript|data):/i.test(token.href)) {
+      token.href = '#';
+    }
+  },
+});
+
+function scoreRows(scores: SectionScoreCard): Array<[string, string]> {
+  return [
+    ['Message clarity', scores.messageClarity],
+    ['Action strength', `${scores.actionStrength}/100`],
+    ['Trust & credibility', `${scores.trustCredibility}/100`],
+    ['Reading ease', `Grade ${scores.readingEase}`],
+  ];
+}
+
+function reportTitle(report: AuditReport): string {
+  return `Checkra audit: ${report.page.title || report.page.url}`;
+}
+
+export function renderAuditReportJson(report: AuditReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function renderAuditReportMarkdown(report: AuditReport): string {
+  const { page } = report;
+  const lines: string[] = [
+    `# ${reportTitle(report)}`,
+    '',
+    `- **URL:** ${page.url}`,
+    `- **Generated:** ${report.generatedAt}`,
+    `- **Viewport:** ${page.viewport.width}×${page.viewport.height}`,
+  ];
+  if (page.description) lines.push(`- **Meta description:** ${page.description}`);
+  if (page.h1) lines.push(`- **H1:** ${page.h1}`);
+  if (page.language) lines.push(`- **Language:** ${page.language}`);
+
+  report.sections.forEach(section => {
+    lines.push('', `## Section ${section.number}: ${section.label}`, '', `Selector: \`${section.selector}\``, '');
+    if (section.scores) {
+      lines.push('| Metric | Score |', '| --- | --- |');
+      scoreRows(section.scores).forEach(([metric, value]) => lines.push(`| ${metric} | ${value} |`));
+      lines.push('');
+    }
+    if (section.analysis) lines.push('### Analysis', '', section.analysis.trim(), '');
+    if (section.screenshots.before) lines.push(`![Section ${section.number} before](${section.screenshots.before})`, '');
+    if (section.screenshots.after) lines.push(`![Section ${section.number} after](${section.screenshots.after})`, '');
+    lines.push('### Before', '', '```html', section.beforeHtml, '```', '');
+    if (section.afterHtml) lines.push('### After', '', '```html', section.afterHtml, '```');
+  });
+  return lines.join('\n') + '\n';
+}
+
+const REPORT_STYLES = `
+body{font:15px/1.5 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#1f2328;max-width:1100px;margin:0 auto;padding:32px 24px}
+h1{font-size:24px;margin:0 0 8px}h2{font-size:19px;margin:40px 0 8px;padding-top:24px;border-top:1px solid #d0d7de}
+dl.meta{display:grid;grid-template-columns:max-content 1fr;gap:4px 16px}dl.meta dt{font-weight:600}dl.meta dd{margin:0}
+code{font-size:13px;background:#f6f8fa;padding:1px 4px;border-radius:4px}
+table.scores{border-collapse:collapse;margin:12px 0}table.scores td{border:1px solid #d0d7de;padding:4px 12px}
+.compare{display:grid;grid-template-columns:1fr 1fr;gap:16px;margin:16px 0}.compare figure{margin:0}
+.compare img{max-width:100%;border:1px solid #d0d7de;border-radius:6px}figcaption{font-weight:600;margin-bottom:4px}
+details{margin:8px 0}pre{background:#f6f8fa;padding:12px;border-radius:6px;overflow:auto;font-size:12px;white-space:pre-wrap}
+`;
+
+function renderFigure(caption: string, dataUrl: string | null): string {
+  if (!dataUrl) return `<figure><figcaption>${caption}</figcaption><p><em>No screenshot</em></p></figure>`;
+  return `<figure><figcaption>${caption}</figcaption><img src="${dataUrl}" alt="${escapeHtml(caption)}"></figure>`;
+}
+
+/** A single HTML file with screenshots inlined as data URLs, so it opens anywhere. */
+export function renderAuditReportHtml(report: AuditReport): string {
+  const { page } = report;
+  const meta: Array<[string, string | null]> = [
+    ['URL', page.url],
+    ['Generated', report.generatedAt],
+    ['Viewport', `${page.viewport.width}×${page.viewport.height}`],
+    ['Meta description', page.description],
+    ['H1', page.h1],
+    ['Language', page.language],
+  ];
+
+  const sections = report.sections.map(section => {
+    const scores = section.scores
+      ? `<table class="scores">${scoreRows(section.scores).map(([metric, value]) => `<tr><td>${metric}</td><td><strong>${escapeHtml(value)}</strong></td></tr>`).join('')}</table>`
+      : '<p><em>No scorecard returned for this section.</em></p>';
+    const analysis = section.analysis ? `<div class="analysis">${analysisMarkdown.parse(section.analysis) as string}</div>` : '';
+    const after = section.afterHtml
+      ? `<details><summary>After HTML</summary><pre>${escapeHtml(section.afterHtml)}</pre></details>`
+      : '';
+    return `<section>
+<h2>Section ${section.number}: ${escapeHtml(section.label)}</h2>
+<p><code>${escapeHtml(section.selector)}</code></p>
+${scores}
+${analysis}
+<div class="compare">${renderFigure('Before', section.screenshots.before)}${renderFigure('After', section.screenshots.after)}</div>
+<details><summary>Before HTML</summary><pre>${escapeHtml(section.beforeHtml)}</pre></details>
+${after}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(reportTitle(report))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(reportTitle(report))}</h1>
+<dl class="meta">${meta.filter(([, value]) => value).map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value!)}</dd>`).join('')}</dl>
+${sections}
+</body>
+</html>
+`;
+}
+
+const FORMAT_DETAILS: Record<AuditReportFormat, { extension: string; mimeType: string; render: (report: AuditReport) => string }> = {
+  html: { extension: 'html', mimeType: 'text/html', render: renderAuditReportHtml },
+  json: { extension: 'json', mimeType: 'application/json', render: renderAuditReportJson },
+  md: { extension: 'md', mimeType: 'text/markdown', render: renderAuditReportMarkdown },
+};
+
+/** Renders the report in `format` and saves it through a download link. Returns the file name. */
+export function downloadAuditReport(report: AuditReport, format: AuditReportFormat): string {
+  const { extension, mimeType, render } = FORMAT_DETAILS[format];
+  const fileName = `checkra-audit-${fileNameHost(report.page.url)}-${report.generatedAt.slice(0, 10)}.${extension}`;
+  downloadTextFile(fileName, render(report), mimeType);
+  return fileName;
+}
@@ -0,0 +1,81 @@
+import type { AuditScoreEntry } from '../types';
+import { AUDIT_METRICS, metricValue } from '../services/audit-history';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 120;
+const CHART_HEIGHT = 28;
+const CHART_PADDING = 3;
+/** Only the most recent runs are charted. */
+const MAX_POINTS = 10;
+const METRIC_RANGES: Record<string, [number, number]> = {
+  messageClarity: [0, 4],
+  actionStrength: [0, 100],
+  trustCredibility: [0, 100],
+  readingEase: [3, 12],
+};
+
+function createSparkline(values: number[], [min, max]: [number, number], improving: boolean | null): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+  svg.setAttribute('width', String(CHART_WIDTH));
+  svg.setAttribute('height', String(CHART_HEIGHT));
+  svg.classList.add('checkra-audit-trend-chart');
+  if (improving !== null) svg.classList.add(improving ? 'is-improving' : 'is-declining');
+
+  const step = values.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (values.length - 1) : 0;
+  const points = values.map((value, i) => {
+    const clamped = Math.min(max, Math.max(min, value));
+    const y = CHART_HEIGHT - CHART_PADDING - ((clamped - min) / (max - min || 1)) * (CHART_HEIGHT - CHART_PADDING * 2);
+    return [CHART_PADDING + i * step, y];
+  });
+
+  const line = document.createElementNS(SVG_NS, 'polyline');
+  line.setAttribute('points', points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' '));
+  svg.appendChild(line);
+
+  const [lastX, lastY] = points[points.length - 1];
+  const dot = document.createElementNS(SVG_NS, 'circle');
+  dot.setAttribute('cx', lastX.toFixed(1));
+  dot.setAttribute('cy', lastY.toFixed(1));
+  dot.setAttribute('r', '2.5');
+  svg.appendChild(dot);
+  return svg;
+}
+
+/**
+ * Small per-metric sparklines for one section's score history (oldest first).
+ * Returns null when there is nothing to compare yet.
+ */
+export function createAuditTrendChart(entries: AuditScoreEntry[], title: string): HTMLElement | null {
+  const recent = entries.slice(-MAX_POINTS);
+  if (recent.length < 2) return null;
+
+  const container = document.createElement('div');
+  container.className = 'checkra-audit-trend';
+
+  const heading = document.createElement('div');
+  heading.className = 'checkra-audit-trend-title';
+  heading.textContent = `${title} · last ${recent.length} runs`;
+  container.appendChild(heading);
+
+  AUDIT_METRICS.forEach(({ metric, label, higherIsBetter, format }) => {
+    const values = recent.map(entry => metricValue(entry.scores, metric));
+    const change = values[values.length - 1] - values[0];
+    const improving = change === 0 ? null : (change > 0) === higherIsBetter;
+
+    const row = document.createElement('div');
+    row.className = 'checkra-audit-trend-row';
+
+    const name = document.createElement('span');
+    name.className = 'checkra-audit-trend-label';
+    name.textContent = label;
+
+    const latest = document.createElement('span');
+    latest.className = 'checkra-audit-trend-value';
+    latest.textContent = format(recent[recent.length - 1].scores[metric]);
+
+    row.append(name, createSparkline(values, METRIC_RANGES[metric], improving), latest);
+    container.appendChild(row);
+  });
+  return container;
+}
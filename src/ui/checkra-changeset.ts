@@ -0,0 +1,152 @@
+import type { AppliedFixInfo } from './checkra-fix-manager';
+import { HEAD_TARGET_SELECTOR } from '../utils/head-tags';
+import { htmlToLines, unifiedDiff } from '../utils/html-diff';
+import { downloadTextFile, fileNameHost } from '../utils/download';
+import { CODE_TARGET_FENCES, CODE_TARGET_LABELS, convertHtmlToFramework, type CodeTarget } from '../utils/framework-code';
+
+export type ChangesetFormat = 'json' | 'patch' | 'md';
+
+/** One applied fix in the manifest. */
+export interface ChangesetEntry {
+  fixId: string;
+  selector: string;
+  insertionMode: AppliedFixInfo['insertionMode'];
+  original: string;
+  proposed: string;
+  /** `proposed` converted for the page's framework (same as `proposed` for HTML). */
+  code: string;
+  /** The prompt that produced the active revision. */
+  prompt: string;
+}
+
+export interface Changeset {
+  generatedAt: string;
+  page: { url: string; title: string };
+  /** Markup flavour of each entry's `code`, from runtime framework detection. */
+  codeTarget: CodeTarget;
+  fixes: ChangesetEntry[];
+}
+
+function stripCheckraAttributes(html: string): string {
+  return html
+    .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
+    .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '');
+}
+
+/** Fixes toggled back to their original version are left out. */
+export function buildChangeset(fixes: Iterable<AppliedFixInfo>, codeTarget: CodeTarget): Changeset {
+  return {
+    generatedAt: new Date().toISOString(),
+    page: { url: window.location.href, title: document.title },
+    codeTarget,
+    fixes: Array.from(fixes)
+      .filter(fix => fix.isCurrentlyFixed)
+      .map(fix => {
+        const proposed = stripCheckraAttributes(fix.fixedOuterHTML);
+        const isHead = fix.stableTargetSelector === HEAD_TARGET_SELECTOR;
+        return {
+          fixId: fix.originalElementId,
+          selector: fix.stableTargetSelector,
+          insertionMode: fix.insertionMode,
+          original: stripCheckraAttributes(fix.originalOuterHTML),
+          proposed,
+          code: codeTarget === 'html' || isHead ? proposed : convertHtmlToFramework(proposed, codeTarget),
+          prompt: fix.requestBody.prompt,
+        };
+      }),
+  };
+}
+
+
+function entryHunks(entry: ChangesetEntry): string[] {
+  const original = htmlToLines(entry.original);
+  const proposed = htmlToLines(entry.proposed);
+  // Inserted content sits next to the untouched target
+  const after = entry.insertionMode === 'insertBefore'
+    ? [...proposed, ...original]
+    : entry.insertionMode === 'insertAfter' ? [...original, ...proposed] : proposed;
+  return unifiedDiff(original, after);
+}
+
+export function renderChangesetJson(changeset: Changeset): string {
+  return JSON.stringify(changeset, null, 2);
+}
+
+/**
+ * A unified diff per fix for review. The rendered page rarely maps to one source
+ * file and hunk line numbers count from the start of each target element's HTML,
+ * so there are no file headers: `git apply` or `patch` would misplace the hunks.
+ */
+export function renderChangesetPatch(changeset: Changeset): string {
+  const lines = [
+    `# Checkra changeset for ${changeset.page.url}`,
+    `# Generated ${changeset.generatedAt}. Review diff, not an applicable patch: hunk line numbers are relative to each target element's HTML.`,
+  ];
+  changeset.fixes.forEach(entry => {
+    lines.push(
+      '',
+      `# ${entry.fixId}: ${entry.selector} (${entry.insertionMode})`,
+      ...entryHunks(entry)
+    );
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function renderChangesetMarkdown(changeset: Changeset): string {
+  const count = changeset.fixes.length;
+  const lines = [
+    `# Checkra changes: ${changeset.page.title || changeset.page.url}`,
+    '',
+    `- **URL:** ${changeset.page.url}`,
+    `- **Generated:** ${changeset.generatedAt}`,
+    `- **Changes:** ${count}`,
+    `- **Framework:** ${CODE_TARGET_LABELS[changeset.codeTarget]} (detected on the page)`,
+    '',
+    '## How to apply',
+    '',
+    'Each change below names the element it targets by CSS selector, as it appears on the live page. ' +
+      'Find the template or component that renders it and make the shown edit there. ' +
+      '`replace` swaps the element for the new markup; `insertBefore`/`insertAfter` add the new markup next to it. ' +
+      'Changes to `head` update the matching title, meta, canonical, hreflang and JSON-LD tags and add any that are missing.',
+  ];
+  changeset.fixes.forEach((entry, i) => {
+    lines.push(
+      '',
+      `## ${i + 1}. \`${entry.selector === HEAD_TARGET_SELECTOR ? '<head>' : entry.selector}\``,
+      '',
+      `- **Fix:** ${entry.fixId}`,
+      `- **Mode:** ${entry.insertionMode}`,
+      `- **Request:** ${entry.prompt.split('\n')[0]}`,
+      '',
+      '```diff',
+      ...entryHunks(entry),
+      '```',
+      '',
+      `<details><summary>Proposed ${entry.selector === HEAD_TARGET_SELECTOR ? 'HTML' : CODE_TARGET_LABELS[changeset.codeTarget]}</summary>`,
+      '',
+      `\`\`\`${entry.selector === HEAD_TARGET_SELECTOR ? 'html' : CODE_TARGET_FENCES[changeset.codeTarget]}`,
+      entry.code,
+      '```',
+      '',
+      '</details>'
+    );
+  });
+  return lines.join('\n') + '\n';
+}
+
+const FORMAT_DETAILS: Record<ChangesetFormat, { extension: string; mimeType: string; render: (changeset: Changeset) => string }> = {
+  json: { extension: 'json', mimeType: 'application/json', render: renderChangesetJson },
+  patch: { extension: 'diff', mimeType: 'text/x-diff', render: renderChangesetPatch },
+  md: { extension: 'md', mimeType: 'text/markdown', render: renderChangesetMarkdown },
+};
+
+/** Downloads the changeset in each of the given formats and returns the file names. */
+export function downloadChangeset(changeset: Changeset, formats: ChangesetFormat[]): string[] {
+  const baseName = `checkra-changes-${fileNameHost(changeset.page.url)}-${changeset.generatedAt.slice(0, 10)}`;
+  return formats.map(format => {
+    const { extension, mimeType, render } = FORMAT_DETAILS[format];
+    const fileName = `${baseName}.${extension}`;
+    downloadTextFile(fileName, render(changeset), mimeType);
+    return fileName;
+  });
+}
@@ -56,6 +56,18 @@ export class ConversationController {
     return null;
   }
 
+  /** Ends the current AI stream early and flags it as cancelled by the user. */
+  cancelStreaming(): ConversationItem | null {
+    const current = this.history[this.history.length - 1];
+    if (current && current.type === 'ai' && current.isStreaming) {
+      current.isStreaming = false;
+      current.isCancelled = true;
+      this.saveToStorage();
+      return current;
+    }
+    return null;
+  }
+
   addUserMessage(content: string) {
     this.append({ type: 'user', content });
   }
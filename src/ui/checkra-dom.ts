@@ -10,6 +10,9 @@ const LOCALSTORAGE_PANEL_WIDTH_KEY = 'checkra_panel_width';
 // Define the settings SVG icon as a constant
 const SETTINGS_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-settings"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l-.22-.38a2 2 0 0 0-.73-2.73l-.15-.09a2 2 0 0 1-1-1.74v-.51a2 2 0 0 1 1-1.72l.15-.1a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>`;
 
+// Square "stop" icon shown while a request is streaming
+const STOP_SVG_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-square"><rect width="14" height="14" x="5" y="5" rx="2"/></svg>`;
+
 // Loader SVG reused inside submit button
 const BUTTON_LOADER_SVG = `
 <svg class="button-loader" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/></svg>`;
@@ -18,6 +21,7 @@ interface ConversationItem {
   type: 'user' | 'ai' | 'usermessage' | 'error';
   content: string;
   isStreaming?: boolean;
+  isCancelled?: boolean;
   fix?: any;
 }
 
@@ -43,6 +47,7 @@ export interface CheckraViewerElements {
   availabilityToast?: HTMLDivElement;
   copyToast?: HTMLDivElement;
   auditButton?: HTMLButtonElement;
+  stopButton?: HTMLButtonElement;
 }
 
 export const SUBMIT_SVG_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 -2 26 26" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-send-icon lucide-send"><path d="M14.536 21.686a.5.5 0 0 0 .937-.024l6.5-19a.496.496 0 0 0-.635-.635l-19 6.5a.5.5 0 0 0-.024.937l7.93 3.18a2 2 0 0 1 1.112 1.11z"/><path d="m21.854 2.147-10.94 10.939"/></svg>`;
@@ -183,6 +188,13 @@ export class CheckraDOM {
     miniSelectButton.title = 'Select element on page';
     miniSelectButton.innerHTML = SELECT_SVG_ICON;
     buttonRow.appendChild(miniSelectButton);
+    const stopButton = document.createElement('button');
+    stopButton.id = 'checkra-stop-btn';
+    stopButton.type = 'button';
+    stopButton.title = 'Stop generating';
+    stopButton.innerHTML = STOP_SVG_ICON;
+    stopButton.classList.add('hidden'); // Only shown while a request is in flight
+    buttonRow.appendChild(stopButton);
     const submitButton = this.createSubmitButton();
     buttonRow.appendChild(submitButton);
     textareaContainer.appendChild(promptTextarea);
@@ -231,6 +243,7 @@ export class CheckraDOM {
       footerCTAContainer,
       miniSelectButton,
       settingsButton,
+      stopButton,
       availabilityToast: this.createAvailabilityToast(),
       copyToast: this.createCopyToast(),
     };
@@ -366,6 +379,8 @@ export class CheckraDOM {
       this.elements.loadingIndicator.style.display = 'none';
     }
 
+    this.elements.stopButton?.classList.toggle('hidden', !visible);
+
     const submitBtn = this.elements.submitButton;
     if (visible) {
       submitBtn.disabled = true;
@@ -474,12 +489,23 @@ export class CheckraDOM {
     const markdownContent = `
 **How to get started:**
 * <a href="#" class="quick-audit-button onboarding-run-audit"><svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-shield-check-icon lucide-shield-check" style="margin-right:6px; vertical-align:middle;"><path d="M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z"></path><path d="m9 12 2 2 4-4"></path></svg>Run a quick page audit</a>
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/audit full</kbd> to grade every section on the page, not just the first screen
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/export-audit</kbd> to download the last audit as a shareable report (add <code>json</code> or <code>md</code> for other formats)
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/a11y</kbd> to check the selected element (or the whole page) for contrast, alt text, labels and other accessibility issues
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/copy</kbd> for readability and CTA metrics of the selected element
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/seo</kbd> to check titles, descriptions, social cards and structured data, and get improved <code>&lt;head&gt;</code> tags applied
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/export</kbd> to download all applied fixes as a JSON manifest, a review diff and a Markdown handoff for your developers
 * Or try one of these prompts:
 
 * <span class="onboarding-suggestion" data-prompt="Improve this headline">Improve this headline</span>
 * <span class="onboarding-suggestion" data-prompt="Review this section for conversion">Review this section for conversion</span>
 
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/edit</kbd> to change the selected element's text directly on the page, without an AI request
+* While selecting, use the arrow keys to move to the parent, child or sibling element and press <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">Enter</kbd> to select it
+* Hold <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">Shift</kbd> while clicking to select several elements, so one prompt updates all of them
+* Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/replace "old" "new"</kbd> to find text across the page and replace it everywhere or one match at a time
 * Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/publish</kbd> to get a shareable url for your changes
+* Press <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">Ctrl+Z</kbd> / <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">Ctrl+Shift+Z</kbd> (or type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/undo</kbd> / <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/redo</kbd>) to undo or redo fix changes
 * Open this panel anytime by pressing <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">Shift</kbd> twice quickly. Type <kbd style="background: #333; padding: 1px 4px; border-radius: 3px; border: 1px solid #555;">/help</kbd> to show this onboarding again.
     `;
 
@@ -518,6 +544,9 @@ export class CheckraDOM {
     if (item.type === 'ai' && item.isStreaming) {
       messageDiv.classList.add('streaming');
     }
+    if (item.isCancelled) {
+      messageDiv.classList.add('cancelled');
+    }
     // TODO: Add data-id for easier updates if needed
     messageDiv.classList.add('checkra-message-bubble', `message-${item.type}`);
     return messageDiv;
@@ -564,6 +593,21 @@ export class CheckraDOM {
     this.elements.contentWrapper.scrollTop = this.elements.contentWrapper.scrollHeight;
   }
 
+  /**
+   * Appends a live element (e.g. audit progress) as an AI bubble. Unlike
+   * appendHistoryItem the element keeps its listeners and can be updated in place.
+   */
+  public appendHistoryElement(element: HTMLElement): void {
+    if (!this.elements) return;
+    this.elements.responseContent.classList.remove('hidden');
+    this.elements.responseContent.classList.add('visible');
+    const messageDiv = document.createElement('div');
+    messageDiv.classList.add('checkra-message-bubble', 'message-ai');
+    messageDiv.appendChild(element);
+    this.elements.responseContent.appendChild(messageDiv);
+    this.elements.contentWrapper.scrollTop = this.elements.contentWrapper.scrollHeight;
+  }
+
   public updateLastAIMessage(newContent: string, isStreaming: boolean): void {
     if (!this.elements) return;
     const { responseContent } = this.elements;
@@ -583,6 +627,18 @@ export class CheckraDOM {
     }
   }
 
+  /**
+   * Marks the last AI bubble as cancelled (stopped by the user mid-stream).
+   */
+  public markLastAIMessageCancelled(content: string): void {
+    if (!this.elements) return;
+    const lastAiMessageBubble = this.elements.responseContent.querySelector('.message-ai:last-child');
+    if (!lastAiMessageBubble) return;
+    lastAiMessageBubble.innerHTML = marked.parse(content) as string;
+    lastAiMessageBubble.classList.remove('streaming');
+    lastAiMessageBubble.classList.add('cancelled');
+  }
+
   // Helper to attach code copy buttons, to be called after innerHTML changes
   private attachCodeCopyButtonsTo(parentElement: HTMLElement): void {
     const preElements = parentElement.querySelectorAll('.checkra-streamed-content pre');
@@ -0,0 +1,73 @@
+export type FixCompareMode = 'side-by-side' | 'slider';
+
+const COMPARE_MODES: FixCompareMode[] = ['side-by-side', 'slider'];
+const POSITION_VAR = '--checkra-compare-position';
+
+export function getFixCompareMode(wrapper: HTMLElement): FixCompareMode | null {
+  const mode = wrapper.dataset.checkraCompare as FixCompareMode | undefined;
+  return mode && COMPARE_MODES.includes(mode) ? mode : null;
+}
+
+/** Off → side by side → slider → off. */
+export function nextFixCompareMode(mode: FixCompareMode | null): FixCompareMode | null {
+  const index = mode ? COMPARE_MODES.indexOf(mode) : -1;
+  return COMPARE_MODES[index + 1] ?? null;
+}
+
+function setPosition(wrapper: HTMLElement, handle: HTMLElement, percent: number): void {
+  const clamped = Math.min(100, Math.max(0, percent));
+  wrapper.style.setProperty(POSITION_VAR, `${clamped}%`);
+  handle.setAttribute('aria-valuenow', String(Math.round(clamped)));
+}
+
+function createSliderHandle(wrapper: HTMLElement): HTMLDivElement {
+  const handle = document.createElement('div');
+  handle.className = 'checkra-fix-compare-handle';
+  handle.tabIndex = 0;
+  handle.setAttribute('role', 'slider');
+  handle.setAttribute('aria-label', 'Reveal original version');
+  handle.setAttribute('aria-valuemin', '0');
+  handle.setAttribute('aria-valuemax', '100');
+
+  const moveTo = (clientX: number) => {
+    const rect = wrapper.getBoundingClientRect();
+    if (rect.width > 0) setPosition(wrapper, handle, ((clientX - rect.left) / rect.width) * 100);
+  };
+  handle.addEventListener('pointerdown', (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    handle.setPointerCapture(e.pointerId);
+  });
+  handle.addEventListener('pointermove', (e) => {
+    if (handle.hasPointerCapture(e.pointerId)) moveTo(e.clientX);
+  });
+  handle.addEventListener('keydown', (e) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const current = Number(handle.getAttribute('aria-valuenow') ?? 50);
+    setPosition(wrapper, handle, current + (e.key === 'ArrowLeft' ? -5 : 5));
+  });
+  // The selection tool listens for clicks on the page
+  handle.addEventListener('click', e => e.stopPropagation());
+
+  setPosition(wrapper, handle, 50);
+  return handle;
+}
+
+/**
+ * Shows the original and fixed versions of a replace-mode fix at the same time,
+ * using the wrapper's hidden `.checkra-original-content`. Layout is done in CSS
+ * off the `data-checkra-compare` attribute, so the inline display values the
+ * toggle sets are left alone and come back when compare mode ends.
+ */
+export function setFixCompareMode(wrapper: HTMLElement, mode: FixCompareMode | null): void {
+  wrapper.querySelector(':scope > .checkra-fix-compare-handle')?.remove();
+  wrapper.style.removeProperty(POSITION_VAR);
+  if (!mode) {
+    delete wrapper.dataset.checkraCompare;
+    return;
+  }
+  wrapper.dataset.checkraCompare = mode;
+  if (mode === 'slider') wrapper.appendChild(createSliderHandle(wrapper));
+}
@@ -0,0 +1,110 @@
+import { diffHtml, diffText, type HtmlDiffChange } from '../utils/html-diff';
+
+const CHANGE_LABELS: Record<HtmlDiffChange['kind'], string> = {
+  'node-added': 'Added',
+  'node-removed': 'Removed',
+  'attr-added': 'Attribute added',
+  'attr-removed': 'Attribute removed',
+  'attr-changed': 'Attribute changed',
+  'class-added': 'Class added',
+  'class-removed': 'Class removed',
+  'text-changed': 'Text changed',
+};
+
+function renderChange(change: HtmlDiffChange): HTMLLIElement {
+  const item = document.createElement('li');
+  item.className = `checkra-fix-diff-change is-${change.kind.endsWith('added') ? 'added' : change.kind.endsWith('removed') ? 'removed' : 'changed'}`;
+
+  const label = document.createElement('span');
+  label.className = 'checkra-fix-diff-kind';
+  label.textContent = CHANGE_LABELS[change.kind];
+
+  const path = document.createElement('code');
+  path.className = 'checkra-fix-diff-path';
+  path.textContent = change.path;
+
+  const detail = document.createElement('span');
+  detail.className = 'checkra-fix-diff-detail';
+  if (change.kind.startsWith('attr-')) {
+    const values = change.kind === 'attr-changed'
+      ? `"${change.before}" → "${change.after}"`
+      : `"${change.kind === 'attr-added' ? change.after : change.before}"`;
+    detail.textContent = `${change.detail}=${values}`;
+  } else if (change.kind === 'text-changed') {
+    detail.textContent = `"${change.before}" → "${change.after}"`;
+  } else {
+    detail.textContent = change.detail;
+  }
+
+  item.append(label, path, detail);
+  return item;
+}
+
+function renderHtmlDiff(originalHtml: string, fixedHtml: string): HTMLElement {
+  const changes = diffHtml(originalHtml, fixedHtml);
+  if (changes.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'checkra-fix-diff-empty';
+    empty.textContent = 'No structural changes.';
+    return empty;
+  }
+  const list = document.createElement('ul');
+  list.className = 'checkra-fix-diff-list';
+  changes.forEach(change => list.appendChild(renderChange(change)));
+  return list;
+}
+
+function renderTextDiff(originalHtml: string, fixedHtml: string): HTMLElement {
+  const parts = diffText(originalHtml, fixedHtml);
+  const container = document.createElement('p');
+  container.className = 'checkra-fix-diff-text';
+  if (!parts.some(part => part.type !== 'same')) {
+    container.textContent = 'The copy is unchanged.';
+    return container;
+  }
+  parts.forEach((part, i) => {
+    const el = document.createElement(part.type === 'added' ? 'ins' : part.type === 'removed' ? 'del' : 'span');
+    el.textContent = part.text;
+    container.appendChild(el);
+    if (i < parts.length - 1) container.appendChild(document.createTextNode(' '));
+  });
+  return container;
+}
+
+/**
+ * Panel with two views of what a fix changes: a structural HTML diff (nodes,
+ * attributes, classes, text) and a word-level diff of the copy.
+ */
+export function createFixDiffPanel(originalHtml: string, fixedHtml: string): HTMLDivElement {
+  const panel = document.createElement('div');
+  panel.className = 'checkra-fix-diff-panel';
+
+  const tabs = document.createElement('div');
+  tabs.className = 'checkra-fix-diff-tabs';
+  const body = document.createElement('div');
+  body.className = 'checkra-fix-diff-body';
+
+  const views: Array<{ label: string; render: () => HTMLElement }> = [
+    { label: 'HTML', render: () => renderHtmlDiff(originalHtml, fixedHtml) },
+    { label: 'Text', render: () => renderTextDiff(originalHtml, fixedHtml) },
+  ];
+  const buttons = views.map(({ label, render }) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      buttons.forEach(b => b.classList.toggle('active', b === button));
+      body.replaceChildren(render());
+    });
+    tabs.appendChild(button);
+    return button;
+  });
+  buttons[0].classList.add('active');
+  body.appendChild(views[0].render());
+
+  panel.append(tabs, body);
+  // Keep clicks inside the panel from reaching the page or the selection tool
+  panel.addEventListener('click', e => e.stopPropagation());
+  return panel;
+}
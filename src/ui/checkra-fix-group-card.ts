@@ -0,0 +1,60 @@
+export type FixGroupState = 'fixed' | 'original' | 'removed';
+
+/**
+ * Panel controls for the fixes one multi-element prompt produced. Each fix keeps
+ * its own controls on the page; this card accepts or discards them as a group.
+ */
+export function createFixGroupCard(
+  selectors: string[],
+  actions: { getState: () => FixGroupState; copy: () => void; toggle: () => void; discard: () => void }
+): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'checkra-fix-group-card';
+
+  const title = document.createElement('div');
+  title.className = 'checkra-fix-group-title';
+
+  const list = document.createElement('ol');
+  list.className = 'checkra-fix-group-targets';
+  selectors.forEach(selector => {
+    const item = document.createElement('li');
+    item.textContent = selector;
+    list.appendChild(item);
+  });
+
+  const controls = document.createElement('div');
+  controls.className = 'checkra-fix-group-controls';
+  const makeButton = (label: string, onClick: () => void): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+      refresh();
+    });
+    controls.appendChild(button);
+    return button;
+  };
+  makeButton('Copy prompts', actions.copy);
+  const toggleButton = makeButton('Show original', actions.toggle);
+  const discardButton = makeButton('Discard all', actions.discard);
+
+  // State can also change through undo/redo or the on-page controls, so re-read it whenever the card is used
+  const refresh = () => {
+    const state = actions.getState();
+    const count = `${selectors.length} elements`;
+    title.textContent = state === 'removed'
+      ? `${count} (discarded)`
+      : state === 'fixed' ? `Applied to ${count}` : `${count} (showing original)`;
+    toggleButton.textContent = state === 'original' ? 'Show fixed' : 'Show original';
+    toggleButton.disabled = state === 'removed';
+    discardButton.disabled = state === 'removed';
+    card.dataset.state = state;
+  };
+  card.addEventListener('mouseenter', refresh);
+
+  card.append(title, list, controls);
+  refresh();
+  return card;
+}
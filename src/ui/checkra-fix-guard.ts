@@ -0,0 +1,75 @@
+import type { FixManager } from './checkra-fix-manager';
+import { onRouteChange } from '../core/route-watcher';
+import { customWarn } from '../utils/logger';
+
+// A framework that re-renders on every change would otherwise fight the guard forever
+const MAX_REAPPLIES = 5;
+const REAPPLY_WINDOW_MS = 10_000;
+
+/**
+ * Keeps applied fixes on the page when React/Vue/etc. re-render the section they
+ * replaced. A MutationObserver notices detached wrappers or replaced targets and
+ * re-applies the fix through FixManager.reapplyFix. Fixes only come back on the
+ * route they were made on, since selectors are page-specific.
+ */
+export class FixGuard {
+  private observer: MutationObserver | null = null;
+  private unsubscribeRoute: (() => void) | null = null;
+  private scheduled = false;
+  /** Path each fix was applied on. */
+  private fixPaths = new Map<string, string>();
+  private reapplyTimes = new Map<string, number[]>();
+  private gaveUp = new Set<string>();
+
+  constructor(private fixManager: FixManager) {}
+
+  start(): void {
+    if (this.observer) return;
+    this.observer = new MutationObserver(() => this.schedule());
+    this.observer.observe(document.body, { childList: true, subtree: true });
+    // Returning to a route should be able to retry fixes that gave up there
+    this.unsubscribeRoute = onRouteChange(() => {
+      this.gaveUp.clear();
+      this.schedule();
+    });
+  }
+
+  stop(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.unsubscribeRoute?.();
+    this.unsubscribeRoute = null;
+  }
+
+  private schedule(): void {
+    if (this.scheduled || this.fixManager.count === 0) return;
+    this.scheduled = true;
+    // Let the framework finish its render pass before looking at the DOM
+    requestAnimationFrame(() => {
+      this.scheduled = false;
+      this.check();
+    });
+  }
+
+  private check(): void {
+    const path = window.location.pathname;
+    const fixes = this.fixManager.getAppliedFixes();
+    fixes.forEach((_, fixId) => { if (!this.fixPaths.has(fixId)) this.fixPaths.set(fixId, path); });
+    this.fixPaths.forEach((_, fixId) => { if (!fixes.has(fixId)) this.fixPaths.delete(fixId); });
+
+    for (const fixId of this.fixManager.getDetachedFixIds()) {
+      if (this.fixPaths.get(fixId) !== path || this.gaveUp.has(fixId)) continue;
+      const now = Date.now();
+      const recent = (this.reapplyTimes.get(fixId) ?? []).filter(time => now - time < REAPPLY_WINDOW_MS);
+      if (recent.length >= MAX_REAPPLIES) {
+        this.gaveUp.add(fixId);
+        customWarn(`[Checkra] Fix ${fixId} keeps being removed by the page's re-renders; no longer re-applying it.`);
+        continue;
+      }
+      if (this.fixManager.reapplyFix(fixId)) {
+        recent.push(now);
+      }
+      this.reapplyTimes.set(fixId, recent);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { AppliedFixInfo } from './checkra-fix-manager';
+
+export type FixOperation = 'apply' | 'discard' | 'toggle' | 'revision';
+
+/**
+ * Everything needed to put a fix back on the page after it was removed.
+ */
+export type FixSnapshot = Pick<
+  AppliedFixInfo,
+  'originalOuterHTML' | 'fixedOuterHTML' | 'revisions' | 'activeRevision' | 'insertionMode' | 'requestBody' | 'stableTargetSelector' | 'auditScores' | 'auditAnalysis' | 'isCurrentlyFixed' | 'groupId'
+>;
+
+export interface FixHistoryEntry {
+  op: FixOperation;
+  fixId: string;
+  snapshot: FixSnapshot;
+  /** For 'revision' entries: the active revision index before and after the change. */
+  fromRevision?: number;
+  toRevision?: number;
+  /** Entries made in the same step (the other fixes of a group); undone and redone together. */
+  linked?: FixHistoryEntry[];
+}
+
+/**
+ * Outcome of an undo/redo: 'empty' when there was nothing to do, 'failed' when the
+ * entry could not be reverted or replayed (it is dropped, since the page no longer
+ * matches it).
+ */
+export type FixHistoryResult =
+  | { status: 'done'; entry: FixHistoryEntry }
+  | { status: 'failed'; entry: FixHistoryEntry }
+  | { status: 'empty' };
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export function snapshotFix(fix: AppliedFixInfo): FixSnapshot {
+  return {
+    originalOuterHTML: fix.originalOuterHTML,
+    fixedOuterHTML: fix.fixedOuterHTML,
+    revisions: fix.revisions.slice(),
+    activeRevision: fix.activeRevision,
+    insertionMode: fix.insertionMode,
+    requestBody: fix.requestBody,
+    stableTargetSelector: fix.stableTargetSelector,
+    auditScores: fix.auditScores,
+    auditAnalysis: fix.auditAnalysis,
+    isCurrentlyFixed: fix.isCurrentlyFixed,
+    groupId: fix.groupId,
+  };
+}
+
+/**
+ * Page-level undo/redo stacks for fix operations.
+ * The stacks only record what happened; FixManager performs the DOM work.
+ */
+export class FixHistory {
+  private undoStack: FixHistoryEntry[] = [];
+  private redoStack: FixHistoryEntry[] = [];
+  private recorded = 0;
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Number of entries recorded so far (not reduced by undo or merging). */
+  get recordedCount(): number {
+    return this.recorded;
+  }
+
+  /** Records a new user operation. Any redo entries are discarded. */
+  record(entry: FixHistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) this.undoStack.shift();
+    this.redoStack = [];
+    this.recorded++;
+  }
+
+  /** Folds the latest `count` entries into one undo step. */
+  mergeLast(count: number): void {
+    if (count < 2 || this.undoStack.length < count) return;
+    const [first, ...rest] = this.undoStack.splice(this.undoStack.length - count, count);
+    this.undoStack.push({ ...first, linked: [...(first.linked ?? []), ...rest] });
+  }
+
+  /**
+   * Reverts the latest entry via `revert`. If reverting fails the entry is
+   * dropped, since the page no longer matches it.
+   */
+  undo(revert: (entry: FixHistoryEntry) => boolean): FixHistoryResult {
+    const entry = this.undoStack.pop();
+    if (!entry) return { status: 'empty' };
+    if (!revert(entry)) return { status: 'failed', entry };
+    this.redoStack.push(entry);
+    return { status: 'done', entry };
+  }
+
+  /** Re-applies the latest undone entry via `replay`. Failed entries are dropped. */
+  redo(replay: (entry: FixHistoryEntry) => boolean): FixHistoryResult {
+    const entry = this.redoStack.pop();
+    if (!entry) return { status: 'empty' };
+    if (!replay(entry)) return { status: 'failed', entry };
+    this.undoStack.push(entry);
+    return { status: 'done', entry };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
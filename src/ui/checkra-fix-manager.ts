@@ -1,11 +1,27 @@
 import type { AddRatingRequestBody, GenerateSuggestionRequestbody } from '../types';
 import { eventEmitter } from '../core/index';
 import { customWarn, customError } from '../utils/logger';
+import { FixHistory, snapshotFix, type FixHistoryEntry, type FixHistoryResult, type FixSnapshot } from './checkra-fix-history';
+import { createFixDiffPanel } from './checkra-fix-diff';
+import { getFixCompareMode, nextFixCompareMode, setFixCompareMode } from './checkra-fix-compare';
+import { detectUiFramework } from '../utils/framework-detector';
+import { CODE_TARGET_LABELS, codeTargetFor, convertHtmlToFramework, type CodeTarget } from '../utils/framework-code';
+import { HEAD_TARGET_SELECTOR, applyHeadTags, revertHeadTags, type HeadTagChange } from '../utils/head-tags';
+
+/** One AI-generated version of a fix. Follow-up prompts on an applied fix add revisions. */
+export interface FixRevision {
+  fixedOuterHTML: string;
+  requestBody: GenerateSuggestionRequestbody;
+}
 
 export interface AppliedFixInfo {
   originalElementId: string;
+  /** Pre-Checkra HTML of the target. Never changes across revisions. */
   originalOuterHTML: string;
+  /** HTML of the active revision. */
   fixedOuterHTML: string;
+  revisions: FixRevision[];
+  activeRevision: number;
   appliedWrapperElement: HTMLDivElement | null;
   isCurrentlyFixed: boolean;
   stableTargetSelector: string;
@@ -17,10 +33,28 @@ export interface AppliedFixInfo {
   originalPlaceholderElement?: HTMLElement | null;
   originalElementRef?: HTMLElement | null;
   originalContentElement?: HTMLElement | null;
+  /** Fixes targeting <head> have no wrapper; this records which tags they added or replaced. */
+  headChanges?: HeadTagChange[] | null;
+  /** Shared by the fixes one multi-element prompt produced; they are discarded and toggled together. */
+  groupId?: string;
 }
 
 const SVG_PLACEHOLDER_REGEX = /<svg\s+data-checkra-id="([^"]+)"[^>]*>[\s\S]*?<\/svg>/g;
 
+/** Separates the elements of a multi-element request (see `groupElementMarker`). */
+const GROUP_MARKER_REGEX = /<!--\s*checkra-element \d+ of \d+[\s\S]*?-->/g;
+
+export function groupElementMarker(index: number, total: number, selector: string): string {
+  return `<!-- checkra-element ${index + 1} of ${total}: ${selector.replace(/--/g, '- -')} -->`;
+}
+
+/** Added to multi-element prompts so the response can be split back into one fix per element. */
+export function formatGroupInstructions(count: number): string {
+  return `This request covers ${count} separate elements, each preceded by a \`<!-- checkra-element N of ${count} -->\` comment in the HTML. ` +
+    `Apply the request to every one of them and reply with exactly ${count} \`\`\`html code blocks, one per element, in the same order. ` +
+    `Each block replaces only its own element, so leave the marker comments out.`;
+}
+
 // DEBUG helper – toggle to false to silence console output in production builds
 const DEBUG_FIX_MANAGER = true;
 function dLog(...args: any[]) { if (DEBUG_FIX_MANAGER) console.log('[FixManager]', ...args); }
@@ -29,16 +63,29 @@ export class FixManager {
   private appliedFixes = new Map<string, AppliedFixInfo>();
   private originalSvgsMap: Map<string, string> = new Map();
   private svgPlaceholderCounter = 0;
-  private appliedFixListeners = new Map<string, { close: EventListener; toggle: EventListener; copy: EventListener; rate?: EventListener; info?: EventListener }>();
+  private appliedFixListeners = new Map<string, { close: EventListener; toggle: EventListener; copy: EventListener; diff: EventListener; prevRevision: EventListener; nextRevision: EventListener; rate?: EventListener; info?: EventListener; compare?: EventListener }>();
+  /** Closers for open diff panels, which also remove their outside-click listener. */
+  private diffPanelClosers = new Map<string, () => void>();
   private enableRating: boolean = false;
   private domManager: any = null;
   private showErrorCb?: (msg: string | Error) => void;
   private removeHighlightCb?: () => void;
+  private fixChangeCb?: (fixId: string, fix: AppliedFixInfo | null) => void;
+  private history = new FixHistory();
+  private codeTarget: CodeTarget | null = null;
 
   get count() {
     return this.appliedFixes.size;
   }
 
+  get canUndo(): boolean {
+    return this.history.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this.history.canRedo;
+  }
+
   getAppliedFixes() {
       return this.appliedFixes;
   }
@@ -48,11 +95,14 @@ export class FixManager {
     domManager?: any;
     showError?: (msg: string | Error) => void;
     removeHighlight?: () => void;
+    /** Called whenever a fix is applied, changes revision, or is removed (with null). */
+    onFixChange?: (fixId: string, fix: AppliedFixInfo | null) => void;
   }) {
     if (options.enableRating !== undefined) this.enableRating = options.enableRating;
     if (options.domManager !== undefined) this.domManager = options.domManager;
     if (options.showError) this.showErrorCb = options.showError;
     if (options.removeHighlight) this.removeHighlightCb = options.removeHighlight;
+    if (options.onFixChange) this.fixChangeCb = options.onFixChange;
   }
 
   applyFix(
@@ -63,10 +113,396 @@ export class FixManager {
     requestBody: GenerateSuggestionRequestbody,
     stableSelector?: string,
     auditScores?: import('../types').SectionScoreCard,
-    auditAnalysis?: string
+    auditAnalysis?: string,
+    groupId?: string
   ) {
     dLog('applyFix() called', { fixId, insertionMode, stableSelector });
-    this.applyFixToPage(fixId, originalHtml, fixedHtml, insertionMode, requestBody, stableSelector, auditScores, auditAnalysis);
+    const previous = this.appliedFixes.get(fixId);
+    if (previous) {
+      // Follow-up prompt on an applied fix: add a revision and keep the original baseline
+      const fromRevision = previous.activeRevision;
+      previous.revisions.push({ fixedOuterHTML: fixedHtml, requestBody });
+      if (this.showRevision(previous, previous.revisions.length - 1)) {
+        this.history.record({ op: 'revision', fixId, snapshot: snapshotFix(previous), fromRevision, toRevision: previous.activeRevision });
+      }
+      return;
+    }
+    if (stableSelector === HEAD_TARGET_SELECTOR) {
+      this.applyHeadFixToPage(fixId, originalHtml, fixedHtml, requestBody, groupId);
+    } else {
+      this.applyFixToPage(fixId, originalHtml, fixedHtml, insertionMode, requestBody, stableSelector, auditScores, auditAnalysis, groupId);
+    }
+    const applied = this.appliedFixes.get(fixId);
+    if (applied && applied !== previous) {
+      this.history.record({ op: 'apply', fixId, snapshot: snapshotFix(applied) });
+    }
+  }
+
+  /**
+   * Applies the fixes one multi-element prompt produced as a linked group, recorded
+   * as a single undo step. Returns the ids that made it onto the page.
+   */
+  applyFixGroup(
+    groupId: string,
+    fixes: Array<{ fixId: string; originalHtml: string; fixedHtml: string; stableSelector: string }>,
+    requestBody: GenerateSuggestionRequestbody
+  ): string[] {
+    const applied = fixes.filter(({ fixId, originalHtml, fixedHtml, stableSelector }) => {
+      if (this.appliedFixes.has(fixId)) return false;
+      // The group id has to be set before the history snapshot and the change callback see the fix
+      this.applyFix(fixId, originalHtml, fixedHtml, 'replace', requestBody, stableSelector, undefined, undefined, groupId);
+      return this.appliedFixes.has(fixId);
+    }).map(({ fixId }) => fixId);
+    this.history.mergeLast(applied.length);
+    return applied;
+  }
+
+  /** Runs `apply` and folds the history entries it records into one undo step. */
+  recordAsOneStep(apply: () => void): void {
+    const before = this.history.recordedCount;
+    try {
+      apply();
+    } finally {
+      // Whatever got applied before a failure still undoes as one step
+      this.history.mergeLast(this.history.recordedCount - before);
+    }
+  }
+
+  /** Ids of the fixes in a group, in the order they were applied. */
+  getFixGroup(groupId: string): string[] {
+    return Array.from(this.appliedFixes.values())
+      .filter(fix => fix.groupId === groupId)
+      .map(fix => fix.originalElementId);
+  }
+
+  /** Discards every fix in a group as one undo step. */
+  discardGroup(groupId: string): number {
+    const discarded = this.getFixGroup(groupId).filter(fixId => this.discardFix(fixId));
+    this.history.mergeLast(discarded.length);
+    return discarded.length;
+  }
+
+  /** Shows the fixed or original version of every fix in a group as one undo step. */
+  setGroupFixed(groupId: string, fixed: boolean): void {
+    const toggled = this.getFixGroup(groupId)
+      .filter(fixId => this.appliedFixes.get(fixId)?.isCurrentlyFixed !== fixed)
+      .filter(fixId => this.toggleFixVersion(fixId));
+    this.history.mergeLast(toggled.length);
+  }
+
+  /** Discards a fix as if its close button was pressed (recorded for undo). */
+  discardFix(fixId: string): boolean {
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (!fixInfo) return false;
+    const snapshot = snapshotFix(fixInfo);
+    if (!this.removeFix(fixId)) return false;
+    this.history.record({ op: 'discard', fixId, snapshot });
+    return true;
+  }
+
+  /** Switches a fix between its fixed and original version (recorded for undo). */
+  toggleFixVersion(fixId: string): boolean {
+    if (!this.toggleFix(fixId)) return false;
+    this.history.record({ op: 'toggle', fixId, snapshot: snapshotFix(this.appliedFixes.get(fixId)!) });
+    return true;
+  }
+
+  /** Markup flavour for copied and exported fixes, from the framework detected on the page. */
+  getCodeTarget(): CodeTarget {
+    if (!this.codeTarget) this.codeTarget = codeTargetFor(detectUiFramework());
+    return this.codeTarget;
+  }
+
+  /**
+   * Fixes a framework re-render has broken: the wrapper was removed from the page,
+   * its controls were removed, or (insert modes) the original element was replaced.
+   */
+  getDetachedFixIds(): string[] {
+    return Array.from(this.appliedFixes.entries())
+      .filter(([, fix]) => {
+        if (fix.stableTargetSelector === HEAD_TARGET_SELECTOR) return false;
+        const wrapper = fix.appliedWrapperElement;
+        if (!wrapper?.isConnected) return true;
+        if (!wrapper.querySelector(':scope > .checkra-fix-controls-container')) return true;
+        return fix.insertionMode !== 'replace' && !!fix.originalElementRef && !fix.originalElementRef.isConnected;
+      })
+      .map(([fixId]) => fixId);
+  }
+
+  /**
+   * Puts a detached fix back on its target (found by stableTargetSelector), keeping
+   * its revisions and toggle state. Not recorded for undo. Returns false, leaving the
+   * fix as it is, when the target isn't on the page (yet).
+   */
+  reapplyFix(fixId: string): boolean {
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (!fixInfo) return false;
+    const wrapper = fixInfo.appliedWrapperElement;
+    const wrapperOnPage = !!wrapper?.isConnected;
+    // A connected replace-mode wrapper stands in for the target, which we put back below
+    if (!(wrapperOnPage && fixInfo.insertionMode === 'replace')) {
+      const target = Array.from(document.querySelectorAll(fixInfo.stableTargetSelector))
+        .find(el => !el.closest('.checkra-feedback-applied-fix'));
+      if (!target) return false;
+    }
+
+    const snapshot = snapshotFix(fixInfo);
+    const listeners = this.appliedFixListeners.get(fixId);
+    this.diffPanelClosers.get(fixId)?.();
+    // Where the connected wrapper sat, so it can go back if re-applying fails
+    const wrapperPosition = wrapper && wrapperOnPage ? { parent: wrapper.parentNode!, next: wrapper.nextSibling } : null;
+    let originalNodes: ChildNode[] = [];
+    if (wrapper && wrapperPosition) {
+      const originalFragment = fixInfo.insertionMode === 'replace' ? this.createFragmentFromHTML(fixInfo.originalOuterHTML) : null;
+      originalNodes = originalFragment ? Array.from(originalFragment.childNodes) : [];
+      if (originalFragment) wrapper.replaceWith(originalFragment);
+      else wrapper.remove();
+    }
+    this.appliedFixes.delete(fixId);
+    this.appliedFixListeners.delete(fixId);
+    if (this.restoreFix(fixId, snapshot)) return true;
+
+    // Put the previous wrapper back so the page keeps showing the fix, and keep
+    // tracking it so a later attempt can succeed
+    if (wrapper && wrapperPosition) {
+      originalNodes.forEach(node => node.remove());
+      const { parent, next } = wrapperPosition;
+      parent.insertBefore(wrapper, next && next.parentNode === parent ? next : null);
+    }
+    this.appliedFixes.set(fixId, fixInfo);
+    if (listeners) this.appliedFixListeners.set(fixId, listeners);
+    return false;
+  }
+
+  /** Copies the agent prompt for a fix to the clipboard. */
+  async copyFixPrompt(fixId: string): Promise<void> {
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (!fixInfo) return;
+    await this.copyPromptText(this.buildFixPrompt(fixInfo));
+  }
+
+  /** Copies the agent prompts for every fix in a group, one after another. */
+  async copyGroupPrompt(groupId: string): Promise<void> {
+    const prompts = this.getFixGroup(groupId).map(fixId => this.buildFixPrompt(this.appliedFixes.get(fixId)!));
+    if (prompts.length === 0) return;
+    await this.copyPromptText(prompts.join('\n\n'));
+  }
+
+  private async copyPromptText(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+      this.domManager?.showCopyPromptToast();
+    } catch (err) {
+      customError('[FixManager] Failed to copy prompt to clipboard:', err);
+      this.showErrorCb?.('Unable to copy prompt to clipboard.');
+    }
+  }
+
+  /**
+   * Reverts the most recent apply/discard/toggle on the page.
+   * Returns the entry that was undone, or null if there was nothing (valid) to undo.
+   */
+  undo(): FixHistoryResult {
+    // Linked entries go back in reverse order; the step counts if any part of it could be undone
+    return this.history.undo(entry => [entry, ...(entry.linked ?? [])].reverse()
+      .map(part => this.revertEntry(part))
+      .some(Boolean));
+  }
+
+  /** Re-does the most recently undone operation. */
+  redo(): FixHistoryResult {
+    return this.history.redo(entry => [entry, ...(entry.linked ?? [])]
+      .map(part => this.replayEntry(part))
+      .some(Boolean));
+  }
+
+  private revertEntry(entry: FixHistoryEntry): boolean {
+    switch (entry.op) {
+      case 'apply': return this.removeFix(entry.fixId);
+      case 'discard': return this.restoreFix(entry.fixId, entry.snapshot);
+      case 'toggle': return this.toggleFix(entry.fixId);
+      case 'revision': return this.selectRevision(entry.fixId, entry.fromRevision ?? 0);
+    }
+  }
+
+  private replayEntry(entry: FixHistoryEntry): boolean {
+    switch (entry.op) {
+      case 'apply': return this.restoreFix(entry.fixId, { ...entry.snapshot, isCurrentlyFixed: true });
+      case 'discard': return this.removeFix(entry.fixId);
+      case 'toggle': return this.toggleFix(entry.fixId);
+      case 'revision': return this.selectRevision(entry.fixId, entry.toRevision ?? 0);
+    }
+  }
+
+  /**
+   * Puts a previously removed fix back on the page. The target is found by its
+   * fix id (insert modes keep it) or, for replaced elements, by the stable selector.
+   */
+  private restoreFix(fixId: string, snapshot: FixSnapshot): boolean {
+    if (this.appliedFixes.has(fixId)) return false;
+
+    if (snapshot.stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      this.applyHeadFixToPage(fixId, snapshot.originalOuterHTML, snapshot.fixedOuterHTML, snapshot.requestBody, snapshot.groupId);
+      const restoredHeadFix = this.appliedFixes.get(fixId);
+      if (!restoredHeadFix) return false;
+      restoredHeadFix.revisions = snapshot.revisions.slice();
+      restoredHeadFix.activeRevision = snapshot.activeRevision;
+      if (!snapshot.isCurrentlyFixed) this.toggleFix(fixId);
+      return true;
+    }
+
+    const target = document.querySelector(`[data-checkra-fix-id="${fixId}"]`)
+      ?? (snapshot.stableTargetSelector ? document.querySelector(snapshot.stableTargetSelector) : null);
+    if (!target) {
+      this.showErrorCb?.(`Cannot restore fix ${fixId}: its target element is no longer on the page.`);
+      return false;
+    }
+    target.setAttribute('data-checkra-fix-id', fixId);
+
+    this.applyFixToPage(
+      fixId,
+      snapshot.originalOuterHTML,
+      snapshot.fixedOuterHTML,
+      snapshot.insertionMode,
+      snapshot.requestBody,
+      snapshot.stableTargetSelector,
+      snapshot.auditScores,
+      snapshot.auditAnalysis,
+      snapshot.groupId
+    );
+    const restored = this.appliedFixes.get(fixId);
+    if (!restored) return false;
+
+    restored.revisions = snapshot.revisions.slice();
+    restored.activeRevision = snapshot.activeRevision;
+    this.updateRevisionNav(restored);
+    if (!snapshot.isCurrentlyFixed) this.toggleFix(fixId);
+    return true;
+  }
+
+  private selectRevision(fixId: string, index: number): boolean {
+    const fixInfo = this.appliedFixes.get(fixId);
+    return fixInfo ? this.showRevision(fixInfo, index) : false;
+  }
+
+  /** Swaps the fixed content of a wrapper to the given revision. */
+  private showRevision(fixInfo: AppliedFixInfo, index: number): boolean {
+    const revision = fixInfo.revisions[index];
+    if (!revision) return false;
+
+    if (fixInfo.stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      if (fixInfo.isCurrentlyFixed) {
+        revertHeadTags(fixInfo.headChanges ?? []);
+        fixInfo.headChanges = applyHeadTags(revision.fixedOuterHTML);
+      }
+    } else {
+      const contentContainer = fixInfo.appliedWrapperElement?.querySelector<HTMLElement>(':scope > .checkra-applied-fix-content');
+      if (!contentContainer) return false;
+      const fragment = this.createFragmentFromHTML(this.stripCheckraAttributes(revision.fixedOuterHTML));
+      if (!fragment || fragment.childNodes.length === 0) {
+        customWarn(`[FixManager] Could not parse revision ${index + 1} of fix ${fixInfo.originalElementId}.`);
+        return false;
+      }
+      contentContainer.replaceChildren(fragment);
+    }
+
+    fixInfo.activeRevision = index;
+    fixInfo.fixedOuterHTML = revision.fixedOuterHTML;
+    fixInfo.requestBody = revision.requestBody;
+    this.fixChangeCb?.(fixInfo.originalElementId, fixInfo);
+    // Ratings belong to the generated HTML, so a different revision can be rated again
+    fixInfo.isRated = false;
+    const rateButton = fixInfo.appliedWrapperElement?.querySelector<HTMLButtonElement>(':scope > .checkra-fix-controls-container > .feedback-fix-rate-btn');
+    if (rateButton) {
+      rateButton.classList.remove('rated');
+      rateButton.disabled = false;
+    }
+    this.updateRevisionNav(fixInfo);
+    return true;
+  }
+
+  private handleRevisionStep(fixId: string, step: -1 | 1, event: Event): void {
+    event.stopPropagation();
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (!fixInfo) return;
+    const fromRevision = fixInfo.activeRevision;
+    const toRevision = fromRevision + step;
+    if (toRevision < 0 || toRevision >= fixInfo.revisions.length) return;
+    if (this.showRevision(fixInfo, toRevision)) {
+      this.history.record({ op: 'revision', fixId, snapshot: snapshotFix(fixInfo), fromRevision, toRevision });
+    }
+  }
+
+  private updateRevisionNav(fixInfo: AppliedFixInfo): void {
+    const nav = fixInfo.appliedWrapperElement?.querySelector<HTMLElement>(':scope > .checkra-fix-controls-container > .checkra-fix-revision-nav');
+    if (!nav) return;
+    const total = fixInfo.revisions.length;
+    nav.style.display = total > 1 ? '' : 'none';
+    const label = nav.querySelector('.checkra-fix-revision-label');
+    if (label) label.textContent = `v${fixInfo.activeRevision + 1}/${total}`;
+    const prevBtn = nav.querySelector<HTMLButtonElement>('.checkra-fix-revision-prev');
+    const nextBtn = nav.querySelector<HTMLButtonElement>('.checkra-fix-revision-next');
+    if (prevBtn) prevBtn.disabled = fixInfo.activeRevision === 0;
+    if (nextBtn) nextBtn.disabled = fixInfo.activeRevision === total - 1;
+  }
+
+  private createRevisionNav(fixId: string): { nav: HTMLDivElement; prevBtn: HTMLButtonElement; nextBtn: HTMLButtonElement } {
+    const nav = document.createElement('div');
+    nav.className = 'checkra-fix-revision-nav';
+    nav.style.display = 'none';
+
+    const prevBtn = document.createElement('button');
+    prevBtn.className = 'checkra-fix-revision-prev';
+    prevBtn.setAttribute('data-fix-id', fixId);
+    prevBtn.innerHTML = '&lsaquo;';
+    prevBtn.title = 'Previous revision';
+
+    const label = document.createElement('span');
+    label.className = 'checkra-fix-revision-label';
+
+    const nextBtn = document.createElement('button');
+    nextBtn.className = 'checkra-fix-revision-next';
+    nextBtn.setAttribute('data-fix-id', fixId);
+    nextBtn.innerHTML = '&rsaquo;';
+    nextBtn.title = 'Next revision';
+
+    nav.append(prevBtn, label, nextBtn);
+    return { nav, prevBtn, nextBtn };
+  }
+
+  private stripCheckraAttributes(html: string): string {
+    return html
+      .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
+      .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '');
+  }
+
+  /**
+   * Applies a fix to the SEO tags in <head>. There is nothing to wrap, so the
+   * proposed tags replace their counterparts in place; the panel provides the controls.
+   */
+  private applyHeadFixToPage(fixId: string, originalHtml: string, fixedHtml: string, requestBody: GenerateSuggestionRequestbody, groupId?: string): void {
+    const headChanges = applyHeadTags(fixedHtml);
+    if (headChanges.length === 0) {
+      this.showErrorCb?.('Failed to apply fix: the response contained no <head> tags.');
+      return;
+    }
+    const fixInfoData: AppliedFixInfo = {
+      originalElementId: fixId,
+      originalOuterHTML: originalHtml,
+      fixedOuterHTML: fixedHtml,
+      revisions: [{ fixedOuterHTML: fixedHtml, requestBody }],
+      activeRevision: 0,
+      appliedWrapperElement: null,
+      isCurrentlyFixed: true,
+      stableTargetSelector: HEAD_TARGET_SELECTOR,
+      insertionMode: 'replace',
+      requestBody,
+      isRated: false,
+      headChanges,
+      groupId,
+    };
+    this.appliedFixes.set(fixId, fixInfoData);
+    this.fixChangeCb?.(fixId, fixInfoData);
   }
 
   private applyFixToPage(
@@ -77,7 +513,8 @@ export class FixManager {
     requestBody: GenerateSuggestionRequestbody,
     stableSelector?: string,
     auditScores?: import('../types').SectionScoreCard,
-    auditAnalysis?: string
+    auditAnalysis?: string,
+    groupId?: string
   ): void {
     if (!this.domManager) {
       customWarn('[FixManager] applyFixToPage: Cannot apply fix: Missing DOM Manager.');
@@ -134,9 +571,7 @@ export class FixManager {
       contentContainer.className = 'checkra-applied-fix-content';
       
       // Clean the fixed HTML as well to avoid any duplicate checkra attributes
-      const cleanFixedHtml = fixedHtml
-        .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
-        .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '');
+      const cleanFixedHtml = this.stripCheckraAttributes(fixedHtml);
       
       const fixedContentFragment = this.createFragmentFromHTML(cleanFixedHtml);
       if (!fixedContentFragment || fixedContentFragment.childNodes.length === 0) {
@@ -154,9 +589,7 @@ export class FixManager {
         originalContentEl.style.display = 'none';
         
         // Clean the original HTML to ensure it doesn't have any checkra attributes
-        const cleanOriginalHtml = originalHtml
-          .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
-          .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '');
+        const cleanOriginalHtml = this.stripCheckraAttributes(originalHtml);
         
         const origFrag = this.createFragmentFromHTML(cleanOriginalHtml);
         dLog('Original fragment created', { 
@@ -181,10 +614,14 @@ export class FixManager {
       const closeBtn = this.createAppliedFixButton('close', fixId);
       const toggleBtn = this.createAppliedFixButton('toggle', fixId);
       const copyBtn = this.createAppliedFixButton('copy', fixId);
+      const diffBtn = this.createAppliedFixButton('diff', fixId);
+      const { nav: revisionNav, prevBtn: prevRevisionBtn, nextBtn: nextRevisionBtn } = this.createRevisionNav(fixId);
       const fixInfoData: AppliedFixInfo = {
         originalElementId: fixId,
         originalOuterHTML: originalHtml,
         fixedOuterHTML: fixedHtml,
+        revisions: [{ fixedOuterHTML: fixedHtml, requestBody }],
+        activeRevision: 0,
         appliedWrapperElement: wrapper,
         isCurrentlyFixed: true,
         stableTargetSelector: stableSelector!,
@@ -194,7 +631,8 @@ export class FixManager {
         auditScores,
         auditAnalysis,
         originalElementRef: insertionMode === 'replace' ? null : (originalSelectedElement as HTMLElement),
-        originalContentElement: originalContentEl
+        originalContentElement: originalContentEl,
+        groupId
       };
 
       let infoBtn: HTMLButtonElement | null = null;
@@ -202,6 +640,13 @@ export class FixManager {
         infoBtn = this.createAppliedFixButton('info', fixId);
         controlsContainer.appendChild(infoBtn);
       }
+      controlsContainer.appendChild(revisionNav);
+      let compareBtn: HTMLButtonElement | null = null;
+      if (originalContentEl) {
+        compareBtn = this.createAppliedFixButton('compare', fixId);
+        controlsContainer.appendChild(compareBtn);
+      }
+      controlsContainer.appendChild(diffBtn);
       controlsContainer.appendChild(copyBtn);
       controlsContainer.appendChild(toggleBtn);
       
@@ -238,6 +683,7 @@ export class FixManager {
       }
 
       this.appliedFixes.set(fixId, fixInfoData);
+      this.fixChangeCb?.(fixId, fixInfoData);
 
       if (rateBtn && fixInfoData.isRated) {
         rateBtn.classList.add('rated');
@@ -247,18 +693,27 @@ export class FixManager {
       const listeners: any = {
         close: (e: Event) => this.handleAppliedFixClose(fixId, e),
         toggle: (e: Event) => this.handleAppliedFixToggle(fixId, e),
-        copy: (e: Event) => this.handleAppliedFixCopy(fixId, e)
+        copy: (e: Event) => this.handleAppliedFixCopy(fixId, e),
+        diff: (e: Event) => this.handleAppliedFixDiff(fixId, e),
+        prevRevision: (e: Event) => this.handleRevisionStep(fixId, -1, e),
+        nextRevision: (e: Event) => this.handleRevisionStep(fixId, 1, e)
       };
       if (rateBtn) listeners.rate = (e: Event) => this.handleAppliedFixRate(fixId, e);
       if (infoBtn) listeners.info = (e: Event) => this.handleAppliedFixInfo(fixId, e);
+      if (compareBtn) listeners.compare = (e: Event) => this.handleAppliedFixCompare(fixId, e);
       
       closeBtn.addEventListener('click', listeners.close);
       toggleBtn.addEventListener('click', listeners.toggle);
       copyBtn.addEventListener('click', listeners.copy);
+      diffBtn.addEventListener('click', listeners.diff);
+      prevRevisionBtn.addEventListener('click', listeners.prevRevision);
+      nextRevisionBtn.addEventListener('click', listeners.nextRevision);
       const rateHandler = listeners.rate as EventListener | undefined;
       if (rateBtn && rateHandler) rateBtn.addEventListener('click', rateHandler);
       const infoHandler = listeners.info as EventListener | undefined;
       if (infoBtn && infoHandler) infoBtn.addEventListener('click', infoHandler);
+      const compareHandler = listeners.compare as EventListener | undefined;
+      if (compareBtn && compareHandler) compareBtn.addEventListener('click', compareHandler);
 
       // Store these listeners so they can be properly removed when the fix is closed
       this.appliedFixListeners.set(fixId, listeners);
@@ -273,7 +728,20 @@ export class FixManager {
 
   private handleAppliedFixClose(fixId: string, event: Event): void {
     event.stopPropagation();
+    const groupId = this.appliedFixes.get(fixId)?.groupId;
+    if (groupId) this.discardGroup(groupId);
+    else this.discardFix(fixId);
+  }
+
+  /** Removes a fix wrapper and puts the original content back. */
+  private removeFix(fixId: string): boolean {
     const fixInfo = this.appliedFixes.get(fixId);
+    if (fixInfo?.stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      if (fixInfo.isCurrentlyFixed) revertHeadTags(fixInfo.headChanges ?? []);
+      this.appliedFixes.delete(fixId);
+      this.fixChangeCb?.(fixId, null);
+      return true;
+    }
     const wrapperElement = document.querySelector(`.checkra-feedback-applied-fix[data-checkra-fix-id="${fixId}"]`);
 
     if (fixInfo && wrapperElement) {
@@ -286,43 +754,72 @@ export class FixManager {
           wrapperElement.replaceWith(originalFragment);
         } else {
           wrapperElement.remove();
+          if (fixInfo.originalElementRef) fixInfo.originalElementRef.style.display = '';
         }
-
         const listeners = this.appliedFixListeners.get(fixId);
         if (listeners) {
           const closeBtn = wrapperElement.querySelector('.feedback-fix-close-btn');
           const toggleBtn = wrapperElement.querySelector('.feedback-fix-toggle');
           const copyBtn = wrapperElement.querySelector('.feedback-fix-copy-btn');
+          const diffBtn = wrapperElement.querySelector('.feedback-fix-diff-btn');
           const rateBtn = wrapperElement.querySelector('.feedback-fix-rate-btn');
           const infoBtnEl = wrapperElement.querySelector('.feedback-fix-info-btn');
+          const compareBtnEl = wrapperElement.querySelector('.feedback-fix-compare-btn');
+          const prevRevisionBtn = wrapperElement.querySelector('.checkra-fix-revision-prev');
+          const nextRevisionBtn = wrapperElement.querySelector('.checkra-fix-revision-next');
           closeBtn?.removeEventListener('click', listeners.close);
           toggleBtn?.removeEventListener('click', listeners.toggle);
           copyBtn?.removeEventListener('click', listeners.copy);
+          diffBtn?.removeEventListener('click', listeners.diff);
+          prevRevisionBtn?.removeEventListener('click', listeners.prevRevision);
+          nextRevisionBtn?.removeEventListener('click', listeners.nextRevision);
           const rateHandler = listeners.rate as EventListener | undefined;
           if (rateBtn && rateHandler) rateBtn.removeEventListener('click', rateHandler);
           const infoHandler = listeners.info as EventListener | undefined;
           if (infoBtnEl && infoHandler) infoBtnEl.removeEventListener('click', infoHandler);
+          const compareHandler = listeners.compare as EventListener | undefined;
+          if (compareBtnEl && compareHandler) compareBtnEl.removeEventListener('click', compareHandler);
           this.appliedFixListeners.delete(fixId);
         }
+        this.diffPanelClosers.get(fixId)?.();
         this.appliedFixes.delete(fixId);
-
+        this.fixChangeCb?.(fixId, null);
+        return true;
       } catch (error) {
         customError(`[FixManager] Error closing fix ${fixId}:`, error);
       }
     }
+    return false;
   }
 
   private handleAppliedFixToggle(fixId: string, event: Event): void {
     event.stopPropagation();
     const fixInfo = this.appliedFixes.get(fixId);
+    if (fixInfo?.groupId) this.setGroupFixed(fixInfo.groupId, !fixInfo.isCurrentlyFixed);
+    else this.toggleFixVersion(fixId);
+  }
 
-    // Obtain the button that triggered the event and locate its parent wrapper for more reliable DOM traversal
-    const toggleButton = event.currentTarget as HTMLButtonElement | null;
-    const wrapperElement = toggleButton ? (toggleButton.closest('.checkra-feedback-applied-fix') as HTMLElement | null) : null;
-    const contentContainer = wrapperElement?.querySelector('.checkra-applied-fix-content') as HTMLElement | null;
+  /** Swaps a fix between its fixed and original version. */
+  private toggleFix(fixId: string): boolean {
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (fixInfo?.stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      if (fixInfo.isCurrentlyFixed) {
+        revertHeadTags(fixInfo.headChanges ?? []);
+        fixInfo.headChanges = null;
+      } else {
+        fixInfo.headChanges = applyHeadTags(fixInfo.fixedOuterHTML);
+      }
+      fixInfo.isCurrentlyFixed = !fixInfo.isCurrentlyFixed;
+      return true;
+    }
+
+    // Only look at the wrapper's own children so nested fixes are not picked up
+    const wrapperElement = fixInfo?.appliedWrapperElement ?? null;
+    const toggleButton = wrapperElement?.querySelector<HTMLButtonElement>(':scope > .checkra-fix-controls-container > .feedback-fix-toggle') ?? null;
+    const contentContainer = wrapperElement?.querySelector<HTMLElement>(':scope > .checkra-applied-fix-content') ?? null;
 
     if (fixInfo && wrapperElement && contentContainer && toggleButton) {
-      dLog('Toggle clicked', { fixId, insertionMode: fixInfo.insertionMode, isCurrentlyFixed: fixInfo.isCurrentlyFixed });
+      dLog('Toggling fix', { fixId, insertionMode: fixInfo.insertionMode, isCurrentlyFixed: fixInfo.isCurrentlyFixed });
       try {
         dLog('Before toggle', { contentDisplay: contentContainer.style.display, originalDisplay: fixInfo.originalElementRef?.style.display });
         
@@ -375,25 +872,17 @@ export class FixManager {
           }
         }
         dLog('After toggle', { isNowFixed: fixInfo.isCurrentlyFixed, contentDisplay: contentContainer.style.display, originalDisplay: fixInfo.originalElementRef?.style.display });
+        return true;
       } catch (error) {
         customError(`[FixManager] Error toggling fix ${fixId}:`, error);
       }
     }
+    return false;
   }
 
   private async handleAppliedFixCopy(fixId: string, event: Event): Promise<void> {
     event.stopPropagation();
-    const fixInfo = this.appliedFixes.get(fixId);
-    if (!fixInfo) return;
-
-    try {
-      const prompt = this.buildFixPrompt(fixInfo);
-      await navigator.clipboard.writeText(prompt);
-      this.domManager?.showCopyPromptToast();
-    } catch (err) {
-      customError('[FixManager] Failed to copy prompt to clipboard:', err);
-      this.showErrorCb?.('Unable to copy prompt to clipboard.');
-    }
+    await this.copyFixPrompt(fixId);
   }
 
   private handleAppliedFixRate(fixId: string, event: Event): void {
@@ -523,16 +1012,20 @@ export class FixManager {
     } catch { return null; }
   }
 
-  private createAppliedFixButton(type: 'close' | 'toggle' | 'copy' | 'rate' | 'info', fixId: string): HTMLButtonElement {
+  private createAppliedFixButton(type: 'close' | 'toggle' | 'copy' | 'diff' | 'compare' | 'rate' | 'info', fixId: string): HTMLButtonElement {
     const DISPLAY_FIX_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-eye-icon lucide-eye"><path d="M2.062 12.348a1 1 0 0 1 0-.696 10.75 10.75 0 0 1 19.876 0 1 1 0 0 1 0 .696 10.75 10.75 0 0 1-19.876 0"/><circle cx="12" cy="12" r="3"/></svg>`;
     const INFO_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-info-icon lucide-info"><circle cx="12" cy="12" r="10"/><path d="M12 16v-4"/><path d="M12 8h.01"/></svg>`;
     const COPY_FIX_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-copy-icon lucide-copy"><rect width="14" height="14" x="8" y="8" rx="2" ry="2"/><path d="M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2"/></svg>`;
+    const DIFF_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-diff-icon lucide-diff"><path d="M12 3v14"/><path d="M5 10h14"/><path d="M5 21h14"/></svg>`;
+    const COMPARE_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="lucide lucide-columns-2-icon lucide-columns-2"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M12 3v18"/></svg>`;
     const button = document.createElement('button');
     button.setAttribute('data-fix-id', fixId);
     switch (type) {
       case 'close': button.className = 'feedback-fix-close-btn'; button.innerHTML = '&times;'; button.title = 'Discard Fix'; break;
       case 'toggle': button.className = 'feedback-fix-toggle toggled-on'; button.innerHTML = DISPLAY_FIX_SVG; button.title = 'Toggle Original Version'; break;
       case 'copy': button.className = 'feedback-fix-copy-btn'; button.innerHTML = COPY_FIX_SVG; button.title = 'Copy prompt for this fix'; break;
+      case 'diff': button.className = 'feedback-fix-diff-btn'; button.innerHTML = DIFF_SVG; button.title = 'Show what this fix changed'; break;
+      case 'compare': button.className = 'feedback-fix-compare-btn'; button.innerHTML = COMPARE_SVG; button.title = 'Compare side by side'; break;
       case 'rate': button.className = 'feedback-fix-rate-btn'; button.innerHTML = '★'; button.title = 'Rate this fix'; break;
       case 'info': button.className = 'feedback-fix-info-btn'; button.innerHTML = INFO_SVG; button.title = 'Show audit details'; break;
     }
@@ -541,8 +1034,18 @@ export class FixManager {
 
   private buildFixPrompt(fix: AppliedFixInfo): string {
     const { stableTargetSelector, originalOuterHTML, fixedOuterHTML } = fix;
-    const jsonPayload = { op: "replaceOuterHTML", uniqueSelector: stableTargetSelector, originalOuterHTML, proposedOuterHTML: fixedOuterHTML };
-    return `You are an autonomous coding agent... apply this patch: \n${JSON.stringify(jsonPayload, null, 2)}`;
+    if (stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      const headPayload = { op: "upsertHeadTags", originalTags: originalOuterHTML, proposedTags: fixedOuterHTML };
+      return `You are an autonomous coding agent... in the page's <head>, replace each matching tag (same title, meta name/property, canonical or hreflang link, JSON-LD @type) with the proposed one and add the rest: \n${JSON.stringify(headPayload, null, 2)}`;
+    }
+    const jsonPayload: Record<string, string> = { op: "replaceOuterHTML", uniqueSelector: stableTargetSelector, originalOuterHTML, proposedOuterHTML: fixedOuterHTML };
+    const target = this.getCodeTarget();
+    if (target === 'html') {
+      return `You are an autonomous coding agent... apply this patch: \n${JSON.stringify(jsonPayload, null, 2)}`;
+    }
+    jsonPayload.framework = CODE_TARGET_LABELS[target];
+    jsonPayload.proposedCode = convertHtmlToFramework(this.stripCheckraAttributes(fixedOuterHTML), target);
+    return `You are an autonomous coding agent... the page is rendered with ${CODE_TARGET_LABELS[target]}; apply this patch in the component that renders the target, using proposedCode: \n${JSON.stringify(jsonPayload, null, 2)}`;
   }
 
   preprocessHtmlForAI(htmlString: string): string {
@@ -570,6 +1073,21 @@ export class FixManager {
     return aiHtmlString.replace(SVG_PLACEHOLDER_REGEX, (match, id) => this.originalSvgsMap.get(id) || match);
   }
 
+  /**
+   * Pulls one HTML fragment per element out of a multi-element response: either
+   * `count` separate html blocks, or a single block split on the element markers
+   * the request used. Returns null when the count doesn't match.
+   */
+  extractGroupHtml(responseText: string, count: number): string[] | null {
+    const blocks = Array.from(responseText.matchAll(/```(?:html)?\n([\s\S]*?)\n```/gi), match => match[1].trim());
+    let fragments = blocks;
+    if (blocks.length === 1 && count > 1) {
+      fragments = blocks[0].split(GROUP_MARKER_REGEX).map(part => part.trim()).filter(Boolean);
+    }
+    if (fragments.length !== count) return null;
+    return fragments.map(html => this.postprocessHtmlFromAI(html.replace(GROUP_MARKER_REGEX, '').trim()));
+  }
+
   extractFixedHtml(responseText: string): { html: string | null; analysis: string | null } {
     const GENERIC_HTML_REGEX = /```(?:html)?\n([\s\S]*?)\n```/i;
     let match = responseText.match(GENERIC_HTML_REGEX);
@@ -612,6 +1130,50 @@ export class FixManager {
     // Append to the wrapper element so it's positioned relative to the entire fix
     fixInfo.appliedWrapperElement.appendChild(overlay);
   }
+
+  /** Cycles the wrapper through side-by-side, slider and normal display. */
+  private handleAppliedFixCompare(fixId: string, event: Event): void {
+    event.stopPropagation();
+    const wrapper = this.appliedFixes.get(fixId)?.appliedWrapperElement;
+    if (!wrapper) return;
+    const mode = nextFixCompareMode(getFixCompareMode(wrapper));
+    setFixCompareMode(wrapper, mode);
+    const button = event.currentTarget as HTMLButtonElement;
+    button.classList.toggle('active', mode !== null);
+    const next = nextFixCompareMode(mode);
+    button.title = next === 'side-by-side' ? 'Compare side by side' : next === 'slider' ? 'Compare with slider' : 'Stop comparing';
+  }
+
+  private handleAppliedFixDiff(fixId: string, event: Event): void {
+    event.stopPropagation();
+    const fixInfo = this.appliedFixes.get(fixId);
+    if (!fixInfo || !fixInfo.appliedWrapperElement) return;
+
+    const openPanelCloser = this.diffPanelClosers.get(fixId);
+    if (openPanelCloser) { openPanelCloser(); return; }
+
+    // Always diff against the pre-Checkra HTML, whichever revision is active
+    const panel = createFixDiffPanel(fixInfo.originalOuterHTML, fixInfo.fixedOuterHTML);
+    // currentTarget is reset once the event has been dispatched
+    const button = event.currentTarget as HTMLElement | null;
+
+    const close = () => {
+      panel.remove();
+      document.removeEventListener('click', clickOutside, true);
+      if (this.diffPanelClosers.get(fixId) === close) this.diffPanelClosers.delete(fixId);
+    };
+    // Clicks on the diff button itself are left to this handler, which closes the panel
+    const clickOutside = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (!panel.contains(target) && !button?.contains(target)) close();
+    };
+    setTimeout(() => {
+      if (this.diffPanelClosers.get(fixId) === close) document.addEventListener('click', clickOutside, true);
+    }, 0);
+    this.diffPanelClosers.set(fixId, close);
+
+    fixInfo.appliedWrapperElement.appendChild(panel);
+  }
 }
 
 export function createCenteredLoaderElement(): HTMLDivElement {
@@ -0,0 +1,104 @@
+import type { GenerateSuggestionRequestbody } from '../types';
+import { customWarn } from '../utils/logger';
+
+/** A fix as persisted in the local session store. */
+export interface StoredFix {
+  fixId: string;
+  /** origin + pathname of the page the fix belongs to. */
+  pageKey: string;
+  stableTargetSelector: string;
+  originalOuterHTML: string;
+  fixedOuterHTML: string;
+  insertionMode: 'replace' | 'insertBefore' | 'insertAfter';
+  requestBody: GenerateSuggestionRequestbody;
+  /** Set for fixes from a multi-element prompt, so they are restored as a group. */
+  groupId?: string;
+  /** When the fix was first saved; kept on updates so fixes restore in the order they were applied. */
+  savedAt: number;
+  /** When the fix was last revised, toggled or regrouped. */
+  updatedAt?: number;
+}
+
+type StoredFixRecord = StoredFix & { key: string };
+
+/**
+ * Opt-in IndexedDB store that keeps applied fixes across reloads, per page.
+ * All methods fail soft (warn and resolve) so a blocked or missing IndexedDB
+ * never breaks the editor.
+ */
+export class FixStore {
+  private static readonly DB_NAME = 'checkra_local_session';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'fixes';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static currentPageKey(): string {
+    return `${window.location.origin}${window.location.pathname}`;
+  }
+
+  /**
+   * Saves a fix. An existing record keeps its `savedAt`; `savedAt` from the caller
+   * only applies to new records and defaults to now.
+   */
+  async save(fix: Omit<StoredFix, 'savedAt' | 'updatedAt'> & { savedAt?: number }): Promise<void> {
+    const key = FixStore.recordKey(fix.pageKey, fix.fixId);
+    const existing = await this.run<StoredFixRecord | undefined>('readonly', store => store.get(key));
+    const now = Date.now();
+    const record: StoredFixRecord = { ...fix, key, savedAt: existing?.savedAt ?? fix.savedAt ?? now, updatedAt: now };
+    await this.run('readwrite', store => store.put(record));
+  }
+
+  async remove(pageKey: string, fixId: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(FixStore.recordKey(pageKey, fixId)));
+  }
+
+  /** Returns the fixes saved for a page, oldest first (the order they were applied in). */
+  async loadForPage(pageKey: string): Promise<StoredFix[]> {
+    const records = await this.run<StoredFixRecord[]>('readonly', store => store.index('pageKey').getAll(pageKey));
+    return (records ?? [])
+      .sort((a, b) => a.savedAt - b.savedAt)
+      .map(({ key, ...fix }) => fix);
+  }
+
+  private static recordKey(pageKey: string, fixId: string): string {
+    return `${pageKey}::${fixId}`;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available.'));
+          return;
+        }
+        const request = indexedDB.open(FixStore.DB_NAME, FixStore.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(FixStore.STORE_NAME)) {
+            const store = db.createObjectStore(FixStore.STORE_NAME, { keyPath: 'key' });
+            store.createIndex('pageKey', 'pageKey', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed (e.g. private mode)
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T | null> {
+    try {
+      const db = await this.open();
+      return await new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(FixStore.STORE_NAME, mode).objectStore(FixStore.STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (err) {
+      customWarn('[FixStore] IndexedDB operation failed:', err);
+      return null;
+    }
+  }
+}
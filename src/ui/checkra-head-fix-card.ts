@@ -0,0 +1,55 @@
+export type HeadFixState = 'fixed' | 'original' | 'removed';
+
+/**
+ * Panel controls for a fix applied to <head>. Body fixes carry their controls on
+ * the page; head tags are invisible, so copy/toggle/discard live in the chat.
+ */
+export function createHeadFixCard(
+  tagsHtml: string,
+  actions: { getState: () => HeadFixState; copy: () => void; toggle: () => void; discard: () => void }
+): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'checkra-head-fix-card';
+
+  const title = document.createElement('div');
+  title.className = 'checkra-head-fix-title';
+
+  const tags = document.createElement('pre');
+  tags.className = 'checkra-head-fix-tags';
+  tags.textContent = tagsHtml.trim();
+
+  const controls = document.createElement('div');
+  controls.className = 'checkra-head-fix-controls';
+  const makeButton = (label: string, onClick: () => void): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+      refresh();
+    });
+    controls.appendChild(button);
+    return button;
+  };
+  makeButton('Copy prompt', actions.copy);
+  const toggleButton = makeButton('Show original', actions.toggle);
+  const discardButton = makeButton('Discard', actions.discard);
+
+  // State can also change through undo/redo, so re-read it whenever the card is used
+  const refresh = () => {
+    const state = actions.getState();
+    title.textContent = state === 'removed'
+      ? '<head> tags (discarded)'
+      : state === 'fixed' ? 'Applied <head> tags' : '<head> tags (showing original)';
+    toggleButton.textContent = state === 'original' ? 'Show fixed' : 'Show original';
+    toggleButton.disabled = state === 'removed';
+    discardButton.disabled = state === 'removed';
+    card.dataset.state = state;
+  };
+  card.addEventListener('mouseenter', refresh);
+
+  card.append(title, tags, controls);
+  refresh();
+  return card;
+}
@@ -1,17 +1,43 @@
-import { fetchFeedback } from '../services/ai-service';
+import { fetchFeedback, cancelActiveRequest, getPageMetadata } from '../services/ai-service';
 import { SELECT_SVG_ICON, type CheckraViewerElements } from './checkra-dom';
 import type { CheckraDOM } from './checkra-dom';
 import { screenCapture } from './screen-capture';
 import type { SettingsModal } from './settings-modal';
-import { eventEmitter } from '../core/index';
+import { eventEmitter, getCurrentAiSettings } from '../core/index';
 import { generateStableSelector } from '../utils/selector-utils';
 import { API_BASE } from '../config';
 import { getSiteId } from '../utils/id';
 import { fetchProtected, logout, isLoggedIn } from '../auth/auth';
-import { customError } from '../utils/logger';
-import { GenerateSuggestionRequestbody, ConversationItem } from '../types';
+import { customError, customWarn } from '../utils/logger';
+import { GenerateSuggestionRequestbody, ConversationItem, SnapshotChange } from '../types';
+import { createFingerprintFromHtml } from '../utils/element-fingerprint';
+import { getStatsUrl } from '../core/tracker';
+import { getVariantAssignment } from '../core/variant-assignment';
+import { fetchExperimentStats, summarizeExperimentStats, type ExperimentStatsSummary } from '../services/stats-service';
 import { ConversationController } from './checkra-conversation';
-import { FixManager, createCenteredLoaderElement } from './checkra-fix-manager';
+import { FixManager, createCenteredLoaderElement, formatGroupInstructions, groupElementMarker, type AppliedFixInfo } from './checkra-fix-manager';
+import { FixStore } from './checkra-fix-store';
+import { AuditProgressView } from './checkra-audit-progress';
+import { createAuditTrendChart } from './checkra-audit-trend';
+import { HEAD_TARGET_SELECTOR, collectHeadTagsHtml } from '../utils/head-tags';
+import { runSeoChecks, formatSeoFindings } from '../utils/seo-checks';
+import { createHeadFixCard } from './checkra-head-fix-card';
+import { createFixGroupCard } from './checkra-fix-group-card';
+import { analyzeElementCopy, analyzeHtmlCopy, formatCopyMetricsTable } from '../utils/copy-metrics';
+import { runAccessibilityChecks, formatA11yFindings, formatA11yFindingsForPrompt, type A11yFinding } from '../utils/a11y-rules';
+import { loadAuditScoreHistory, recordAuditScores, describeScoreChanges } from '../services/audit-history';
+import { buildAuditReport, downloadAuditReport, type AuditReportFormat } from './checkra-audit-report';
+import { FixGuard } from './checkra-fix-guard';
+import { buildChangeset, downloadChangeset, type ChangesetFormat } from './checkra-changeset';
+import { startInlineEdit, type InlineEditResult, type InlineEditSession } from './checkra-inline-editor';
+import { findReplaceMatches, outermostBlocks, parseReplaceCommand, positionInBlock, replaceInBlock, type ReplaceCommand } from '../utils/text-replace';
+import { createReplacePreview, type ReplacePreview } from './checkra-replace-preview';
+
+type AuditMode = 'aboveFold' | 'fullPage';
+/** Sections per fetchAudit request in full-page mode. */
+const AUDIT_BATCH_SIZE = 3;
+/** Upper bound for a full-page audit, to keep token use predictable. */
+const MAX_FULL_PAGE_SECTIONS = 40;
 
 const PENDING_ACTION_TYPE_KEY = 'checkra_auth_pending_action_type';
 const PENDING_ACTION_DATA_KEY = 'checkra_auth_pending_action_data';
@@ -39,6 +65,7 @@ export class CheckraImplementation {
   private queuedPromptText: string | null = null;
 
   private boundHandleEscapeKey: ((event: KeyboardEvent) => void) | null = null;
+  private boundHandleUndoRedoKey = this.handleUndoRedoKey.bind(this);
 
   private boundUpdateResponse = this.updateResponse.bind(this);
   private boundRenderUserMessage = this.renderUserMessage.bind(this);
@@ -58,18 +85,45 @@ export class CheckraImplementation {
   private boundHandleRequestBodyPrepared = this.handleRequestBodyPrepared.bind(this);
 
   private fixManager = new FixManager();
+  private fixGuard = new FixGuard(this.fixManager);
+  private fixStore: FixStore | null = null;
+  /**
+   * Store writes, in order. Starts with the restore of saved fixes, so nothing
+   * applied meanwhile overwrites a saved fix before it has been read.
+   */
+  private fixStoreWrites: Promise<void> = Promise.resolve();
+  /** Shift-click selection: one prompt for several elements, applied as a linked fix group. */
+  private groupForCurrentCycle: {
+    groupId: string;
+    members: Array<{ fixId: string; selector: string; originalHtml: string; element: Element }>;
+    fixedHtml: string[] | null;
+  } | null = null;
+  /** Active `/edit` session on the selection, if any. */
+  private inlineEditSession: InlineEditSession | null = null;
+  /** Open `/replace` preview; its match highlights stay on the page until it closes. */
+  private replacePreview: ReplacePreview | null = null;
+  /** Findings from `/a11y` on the current selection, sent as context with the next prompt for it. */
+  private a11yFindingsForCurrentCycle: { fixId: string; findings: A11yFinding[] } | null = null;
 
   private boundHandleTextareaKeydown = this.handleTextareaKeydown.bind(this);
   private boundHandleSubmit = this.handleSubmit.bind(this);
   private boundHandleMiniSelectClick = this.handleMiniSelectClick.bind(this);
   private boundHandleSettingsClick = this.handleSettingsClick.bind(this);
   private boundHandleAuditClick = this.handleAuditClick.bind(this);
+  private boundHandleStopClick = this.handleStopClick.bind(this);
+  private boundHandleCancelled = this.handleCancelled.bind(this);
 
-  private auditSectionInfo: Map<number, { selector: string; originalHtml: string; scores?: import('../types').SectionScoreCard; analysis?: string }> = new Map();
+  private auditSectionInfo: Map<number, { selector: string; originalHtml: string; label: string; scores?: import('../types').SectionScoreCard; analysis?: string; a11y?: A11yFinding[] }> = new Map();
+  /** Scorecards of the current audit, rendered in the order their ratings arrived. */
+  private auditRatingQueue: Promise<void> = Promise.resolve();
 
   private boundHandleAuditComplete = this.handleAuditComplete.bind(this);
 
-  private boundHandleAuditError = (p: any) => this.showError(`Audit error (section ${p.section}): ${p.message}`);
+  private boundHandleAuditError = (p: any) => {
+    this.markAuditSectionsFailed(p.section);
+    this.showError(`Audit error (section ${p.section}): ${p.message}`);
+  };
+  private activeAuditRun: { mode: AuditMode; progress: AuditProgressView | null; currentBatch: number[] } | null = null;
 
   // Page scan loader
   private pageScanLoaderElement: HTMLDivElement | null = null;
@@ -77,12 +131,14 @@ export class CheckraImplementation {
   constructor(
     private onToggleCallback: (isVisible: boolean) => void,
     initialVisibilityFromOptions: boolean = false,
-    enableRating: boolean = false
+    enableRating: boolean = false,
+    persistFixes: boolean = false
   ) {
     this.optionsInitialVisibility = initialVisibilityFromOptions;
     // Enable rating automatically when running via Vite dev server (import.meta.env.DEV === true)
     const isDevBuild = typeof import.meta !== 'undefined' && (import.meta as any).env && (import.meta as any).env.DEV;
     this.enableRating = enableRating || isDevBuild;
+    this.fixStore = persistFixes ? new FixStore() : null;
 
     this.conversationController.clear();
 
@@ -103,6 +159,7 @@ export class CheckraImplementation {
         enableRating: this.enableRating,
         showError: this.showError.bind(this),
         removeHighlight: this.removeSelectionHighlight.bind(this),
+        onFixChange: this.handleFixChange.bind(this),
     });
 
     const handleClose = () => this.hide(true, true);
@@ -119,11 +176,13 @@ export class CheckraImplementation {
     this.domElements.miniSelectButton?.addEventListener('click', this.boundHandleMiniSelectClick);
     this.domElements.settingsButton?.addEventListener('click', this.boundHandleSettingsClick);
     this.domElements.auditButton?.addEventListener('click', this.boundHandleAuditClick);
+    this.domElements.stopButton?.addEventListener('click', this.boundHandleStopClick);
     
     eventEmitter.on('aiResponseChunk', this.boundUpdateResponse);
     eventEmitter.on('aiUserMessage', this.boundRenderUserMessage);
     eventEmitter.on('aiError', this.boundShowError);
     eventEmitter.on('aiFinalized', this.boundFinalizeResponse);
+    eventEmitter.on('aiCancelled', this.boundHandleCancelled);
     eventEmitter.on('toggleViewerShortcut', this.boundToggle);
     eventEmitter.on('showViewerApi', this.boundShowFromApi);
     eventEmitter.on('onboardingSuggestionClicked', this.boundHandleSuggestionClick);
@@ -158,20 +217,83 @@ export class CheckraImplementation {
     }
     this.handleAuthErrorInUrl();
     this.handlePendingActionAfterLogin();
+    if (this.fixStore) {
+      this.fixStoreWrites = this.restorePersistedFixes().catch(err => customError('[Checkra] Failed to restore saved fixes:', err));
+    }
+    this.fixGuard.start();
     eventEmitter.emit('feedbackViewerImplReady');
   }
 
+  /** Mirrors applied/revised/discarded fixes into the local session store (when enabled). */
+  private handleFixChange(fixId: string, fix: AppliedFixInfo | null): void {
+    const store = this.fixStore;
+    if (!store) return;
+    const pageKey = FixStore.currentPageKey();
+    const write = fix
+      ? () => store.save({
+        fixId,
+        pageKey,
+        stableTargetSelector: fix.stableTargetSelector,
+        originalOuterHTML: fix.originalOuterHTML,
+        fixedOuterHTML: fix.fixedOuterHTML,
+        insertionMode: fix.insertionMode,
+        requestBody: fix.requestBody,
+        groupId: fix.groupId,
+      })
+      : () => store.remove(pageKey, fixId);
+    this.fixStoreWrites = this.fixStoreWrites.then(write);
+  }
+
+  /** Re-applies the fixes saved for this page through FixManager.applyFix. */
+  private async restorePersistedFixes(): Promise<void> {
+    if (!this.fixStore) return;
+    const savedFixes = await this.fixStore.loadForPage(FixStore.currentPageKey());
+    let restoredCount = 0;
+
+    // Ids handed out while the store was loading may clash with saved ones
+    const idsUsedBeforeRestore = this.fixIdCounter;
+    savedFixes.forEach(saved => {
+      const idNumber = Number(saved.fixId.match(/^checkra-fix-(\d+)$/)?.[1]);
+      if (!Number.isNaN(idNumber)) this.fixIdCounter = Math.max(this.fixIdCounter, idNumber + 1);
+    });
+
+    for (const saved of savedFixes) {
+      const target = document.querySelector(saved.stableTargetSelector);
+      if (!target) {
+        customWarn(`[Checkra] Saved fix ${saved.fixId} skipped: ${saved.stableTargetSelector} not found on this page.`);
+        continue;
+      }
+      let fixId = saved.fixId;
+      const idNumber = Number(fixId.match(/^checkra-fix-(\d+)$/)?.[1]);
+      if (this.fixManager.getAppliedFixes().has(fixId) || idNumber < idsUsedBeforeRestore) {
+        // Move the saved fix to a fresh id, keeping its place in the restore order
+        fixId = `checkra-fix-${this.fixIdCounter++}`;
+        await this.fixStore.remove(saved.pageKey, saved.fixId);
+        await this.fixStore.save({ ...saved, fixId });
+      }
+      target.setAttribute('data-checkra-fix-id', fixId);
+      this.fixManager.applyFix(fixId, saved.originalOuterHTML, saved.fixedOuterHTML, saved.insertionMode, saved.requestBody, saved.stableTargetSelector, undefined, undefined, saved.groupId);
+      if (this.fixManager.getAppliedFixes().has(fixId)) restoredCount++;
+    }
+
+    if (restoredCount > 0) {
+      this.renderUserMessage(`Restored ${restoredCount} saved fix${restoredCount === 1 ? '' : 'es'} from your local session.`);
+    }
+  }
+
   public cleanup(): void {
     if (!this.domElements) return;
 
     this.domElements.promptTextarea.removeEventListener('keydown', this.boundHandleTextareaKeydown);
     this.domElements.submitButton.removeEventListener('click', this.boundHandleSubmit);
     this.domElements.miniSelectButton?.removeEventListener('click', this.boundHandleMiniSelectClick);
+    this.domElements.stopButton?.removeEventListener('click', this.boundHandleStopClick);
     
     eventEmitter.off('aiResponseChunk', this.boundUpdateResponse);
     eventEmitter.off('aiUserMessage', this.boundRenderUserMessage);
     eventEmitter.off('aiError', this.boundShowError);
     eventEmitter.off('aiFinalized', this.boundFinalizeResponse);
+    eventEmitter.off('aiCancelled', this.boundHandleCancelled);
     eventEmitter.off('toggleViewerShortcut', this.boundToggle);
     eventEmitter.off('showViewerApi', this.boundShowFromApi);
     eventEmitter.off('onboardingSuggestionClicked', this.boundHandleSuggestionClick);
@@ -185,9 +307,12 @@ export class CheckraImplementation {
     eventEmitter.off('auditComplete', this.boundHandleAuditComplete);
     eventEmitter.off('runAuditRequested', this.boundHandleAuditClick);
 
+    this.inlineEditSession?.cancel();
+    this.replacePreview?.close();
     this.domElements = null;
     this.domManager = null;
     this.removeGlobalListeners();
+    this.fixGuard.stop();
 
     this.removeSelectionHighlight();
     if (this.selectionPlusIconElement && this.selectionPlusIconElement.parentNode) {
@@ -208,18 +333,38 @@ export class CheckraImplementation {
     clickX: number,
     clickY: number,
     effectiveBackgroundColor: string | null,
-    insertionMode: 'replace' | 'insertBefore' | 'insertAfter'
+    insertionMode: 'replace' | 'insertBefore' | 'insertAfter',
+    groupElements: Element[] = []
   ): void {
     if (!this.domManager || !this.domElements) return;
 
+    this.inlineEditSession?.cancel();
     this.removeSelectionHighlight();
+    this.groupForCurrentCycle = null;
 
     this.currentImageDataUrl = imageDataUrl;
     this.currentElementInsertionMode = insertionMode;
 
     const isElementSelected = !!(targetElement && targetElement !== document.body);
 
-    if (isElementSelected && targetElement) {
+    // Selecting inside an applied fix refines that fix: the AI gets the active
+    // revision, and FixManager adds the result as a new revision of the same fixId.
+    const existingFix = isElementSelected && targetElement ? this.findAppliedFixFor(targetElement) : null;
+    // Applied fixes are refined one at a time, so they can't join a group
+    const groupMembers = groupElements.filter(el => el !== document.body && !el.closest('.checkra-feedback-applied-fix'));
+
+    if (groupMembers.length > 1) {
+      this.prepareGroupForInput(groupMembers);
+    } else if (existingFix) {
+      const { fixId, fixInfo, wrapper } = existingFix;
+      this.stableSelectorForCurrentCycle = fixInfo.stableTargetSelector;
+      this.originalOuterHTMLForCurrentCycle = fixInfo.fixedOuterHTML;
+      // The revision replaces the wrapper's fixed content, whatever the fix's original insertion mode
+      this.currentElementInsertionMode = 'replace';
+      this.currentlyHighlightedElement = wrapper;
+      this.updateSelectionVisuals(wrapper, 'replace');
+      this.currentFixId = fixId;
+    } else if (isElementSelected && targetElement) {
       this.stableSelectorForCurrentCycle = generateStableSelector(targetElement);
       this.originalOuterHTMLForCurrentCycle = selectedHtml;
       this.currentlyHighlightedElement = targetElement;
@@ -235,6 +380,7 @@ export class CheckraImplementation {
     }
 
     this.fixedOuterHTMLForCurrentCycle = null;
+    this.a11yFindingsForCurrentCycle = null;
 
     this.domManager.setPromptState(true, '');
     this.domManager.updateSubmitButtonState(isElementSelected);
@@ -256,6 +402,50 @@ export class CheckraImplementation {
     }
   }
 
+  /**
+   * Sets up a multi-element cycle. Each element gets its own fix id; the prompt's
+   * HTML holds all of them, separated by markers the response is split on.
+   */
+  private prepareGroupForInput(elements: Element[]): void {
+    const members = elements.map(element => {
+      const originalHtml = element.outerHTML;
+      const fixId = `checkra-fix-${this.fixIdCounter++}`;
+      element.setAttribute('data-checkra-fix-id', fixId);
+      return { fixId, selector: generateStableSelector(element), originalHtml, element };
+    });
+    this.groupForCurrentCycle = { groupId: `checkra-group-${members[0].fixId}`, members, fixedHtml: null };
+
+    // The single-element fields keep handleSubmit's checks working; the group fields drive the request
+    this.currentFixId = members[0].fixId;
+    this.stableSelectorForCurrentCycle = members[0].selector;
+    this.originalOuterHTMLForCurrentCycle = members
+      .map((member, i) => `${groupElementMarker(i, members.length, member.selector)}\n${member.originalHtml}`)
+      .join('\n');
+    this.currentElementInsertionMode = 'replace';
+    this.updateSelectionVisuals(members[0].element, 'replace');
+    members.slice(1).forEach(({ element }) => element.classList.add('checkra-highlight-container', 'checkra-selected-replace'));
+  }
+
+  private buildSnapshotChanges(): SnapshotChange[] {
+    return Array.from(this.fixManager.getAppliedFixes().values()).map(fix => {
+      // Replaced targets are gone from the page; their wrapper sits where they were
+      const anchor = fix.insertionMode === 'replace' ? fix.appliedWrapperElement : fix.originalElementRef;
+      return {
+        targetSelector: fix.stableTargetSelector,
+        appliedHtml: fix.fixedOuterHTML,
+        fingerprint: anchor ? createFingerprintFromHtml(fix.originalOuterHTML, anchor) : undefined,
+      };
+    });
+  }
+
+  private findAppliedFixFor(element: Element): { fixId: string; fixInfo: AppliedFixInfo; wrapper: HTMLElement } | null {
+    const wrapper = element.closest<HTMLElement>('.checkra-feedback-applied-fix');
+    const fixId = wrapper?.getAttribute('data-checkra-fix-id');
+    const fixInfo = fixId ? this.fixManager.getAppliedFixes().get(fixId) : undefined;
+    if (!wrapper || !fixId || !fixInfo) return null;
+    return { fixId, fixInfo, wrapper };
+  }
+
   public updateResponse(chunk: string): void {
     if (!this.domManager) return;
     const updated = this.conversationController.appendToStreaming(chunk);
@@ -274,7 +464,8 @@ export class CheckraImplementation {
 
     const streamToFinalize = this.conversationController.finalizeStreaming();
     if (streamToFinalize) {
-      this.extractAndStoreFixHtml();
+      if (this.groupForCurrentCycle) this.extractAndStoreGroupHtml();
+      else this.extractAndStoreFixHtml();
 
       if (this.fixedOuterHTMLForCurrentCycle && this.originalOuterHTMLForCurrentCycle && this.currentFixId) {
         streamToFinalize.fix = {
@@ -295,7 +486,10 @@ export class CheckraImplementation {
 
     this.domElements.contentWrapper.scrollTop = this.domElements.contentWrapper.scrollHeight;
 
-    if (this.fixedOuterHTMLForCurrentCycle && this.originalOuterHTMLForCurrentCycle && this.currentFixId && this.requestBodyForCurrentCycle) {
+    if (this.groupForCurrentCycle?.fixedHtml && this.requestBodyForCurrentCycle) {
+        this.applyGroupForCurrentCycle(this.requestBodyForCurrentCycle);
+        this.requestBodyForCurrentCycle = null;
+    } else if (this.fixedOuterHTMLForCurrentCycle && this.originalOuterHTMLForCurrentCycle && this.currentFixId && this.requestBodyForCurrentCycle) {
         this.fixManager.applyFix(
             this.currentFixId,
             this.originalOuterHTMLForCurrentCycle,
@@ -304,10 +498,48 @@ export class CheckraImplementation {
             this.requestBodyForCurrentCycle!,
             this.stableSelectorForCurrentCycle ?? undefined,
         );
+        this.handleFixApplied(this.currentFixId, this.originalOuterHTMLForCurrentCycle);
         this.requestBodyForCurrentCycle = null;
     }
   }
 
+  private handleStopClick(e: MouseEvent): void {
+    e.stopPropagation();
+    cancelActiveRequest();
+  }
+
+  /**
+   * Handles a user-initiated stop: clears page loaders and marks the streaming
+   * conversation item as cancelled without surfacing an error.
+   */
+  private handleCancelled(payload: { source: 'generate' | 'audit' }): void {
+    if (!this.domManager || !this.domElements) return;
+
+    this.hidePageLoaders();
+    if (payload?.source === 'audit') {
+      this.hidePageScanLoader();
+      this.activeAuditRun?.progress?.settlePending('skipped');
+      this.activeAuditRun = null; // stops any remaining full-page batches
+    }
+
+    const cancelledItem = this.conversationController.cancelStreaming();
+    if (cancelledItem) {
+      cancelledItem.content = cancelledItem.content ? `${cancelledItem.content}\n\n_Cancelled._` : '_Cancelled._';
+      this.conversationController.saveToStorage();
+      this.domManager.markLastAIMessageCancelled(cancelledItem.content);
+    } else if (payload?.source === 'audit') {
+      this.renderUserMessage('Audit cancelled.');
+    }
+    this.activeStreamingAiItem = null;
+    this.fixedOuterHTMLForCurrentCycle = null;
+    this.requestBodyForCurrentCycle = null;
+    this.conversationHistory = this.conversationController.items;
+
+    this.domManager.updateLoaderVisibility(false);
+    this.domManager.setPromptState(true);
+    this.domManager.updateSubmitButtonState(true);
+  }
+
   public showError(error: Error | string): void {
     let errorHtmlContent: string;
     this.hidePageLoaders();
@@ -342,10 +574,12 @@ export class CheckraImplementation {
   }
 
   private resetStateForNewSelection(): void {
+    this.inlineEditSession?.cancel();
     this.currentImageDataUrl = null;
     this.originalOuterHTMLForCurrentCycle = null;
     this.fixedOuterHTMLForCurrentCycle = null;
     this.stableSelectorForCurrentCycle = null;
+    this.groupForCurrentCycle = null;
     this.activeStreamingAiItem = null;
     this.hidePageLoaders();
   }
@@ -370,6 +604,39 @@ export class CheckraImplementation {
         this.showError('Please enter a description or question.');
         return;
     }
+    // Page-level commands don't need a selected element
+    const isStatsCommand = /^\/stats(\s|$)/i.test(promptText);
+    const auditCommand = promptText.toLowerCase().match(/^\/audit(?:\s+(full))?$/);
+    const exportAuditCommand = promptText.toLowerCase().match(/^\/export-audit(?:\s+(html|json|md))?$/);
+    const exportCommand = promptText.toLowerCase().match(/^\/export(?:\s+(json|patch|md))?$/);
+    const a11yCommand = promptText.toLowerCase().match(/^\/a11y(?:\s+(page))?$/);
+    const isCopyCommand = promptText.toLowerCase() === '/copy';
+    const isSeoCommand = promptText.toLowerCase() === '/seo';
+    const isReplaceCommand = /^\/replace(\s|$)/i.test(promptText);
+    if (promptText.toLowerCase() === '/undo' || promptText.toLowerCase() === '/redo' || isStatsCommand || auditCommand || exportAuditCommand || exportCommand || a11yCommand || isCopyCommand || isSeoCommand || isReplaceCommand) {
+      if (isReplaceCommand) {
+        this.startTextReplace(promptText);
+      } else if (isSeoCommand) {
+        this.runSeoAudit();
+      } else if (isCopyCommand) {
+        this.showCopyMetrics();
+      } else if (a11yCommand) {
+        this.runAccessibilityCheck(!!a11yCommand[1]);
+      } else if (exportCommand) {
+        this.exportChangeset(exportCommand[1] ? [exportCommand[1] as ChangesetFormat] : ['json', 'patch', 'md']);
+      } else if (exportAuditCommand) {
+        this.exportAuditReport((exportAuditCommand[1] as AuditReportFormat | undefined) ?? 'html');
+      } else if (auditCommand) {
+        this.startAudit(auditCommand[1] ? 'fullPage' : 'aboveFold');
+      } else if (isStatsCommand) {
+        this.showExperimentStats(promptText.slice('/stats'.length).trim() || undefined);
+      } else {
+        this.runFixHistoryCommand(promptText.toLowerCase() === '/undo' ? 'undo' : 'redo');
+      }
+      this.domManager?.setPromptState(true, '');
+      this.domManager?.updateSubmitButtonState(true);
+      return;
+    }
     if (!this.domManager || !this.domElements || !this.originalOuterHTMLForCurrentCycle || !this.currentFixId) {
         this.showError(`First select an element on your website using the ${SELECT_SVG_ICON}`);
         return;
@@ -388,6 +655,8 @@ export class CheckraImplementation {
                .catch((err: Error) => this.renderUserMessage(`Logout failed: ${err.message}`));
     } else if (promptText.toLowerCase() === '/help') {
       this.showOnboarding();
+    } else if (promptText.toLowerCase() === '/edit') {
+      this.startInlineEdit();
     } else {
         this.domManager.setPromptState(false);
         this.domManager.updateSubmitButtonState(false);
@@ -400,6 +669,7 @@ export class CheckraImplementation {
             this.selectionPlusIconElement?.classList.add('loading');
         } else if (this.currentElementInsertionMode === 'replace' && this.currentlyHighlightedElement) {
             this.showReplaceLoader(this.currentlyHighlightedElement);
+            this.groupForCurrentCycle?.members.slice(1).forEach(({ element }) => element.classList.add('checkra-element-dimmed'));
         }
 
         const imageKeywords = ["image", "photo", "picture", "screenshot", "visual", "look", "style", "design"];
@@ -414,7 +684,14 @@ export class CheckraImplementation {
         const html = this.originalOuterHTMLForCurrentCycle;
         try {
             const processedHtml = this.fixManager.preprocessHtmlForAI(html);
-            fetchFeedback(useImage ? this.currentImageDataUrl : null, promptText, processedHtml, this.currentElementInsertionMode);
+            const a11yContext = this.a11yFindingsForCurrentCycle?.fixId === this.currentFixId
+              ? formatA11yFindingsForPrompt(this.a11yFindingsForCurrentCycle.findings)
+              : '';
+            const group = this.groupForCurrentCycle;
+            const promptContext = [a11yContext, group ? formatGroupInstructions(group.members.length) : ''].filter(Boolean).join('\n\n');
+            const promptForAi = promptContext ? `${promptText}\n\n${promptContext}` : promptText;
+            const elements = group?.members.map(({ selector, originalHtml }) => ({ selector, html: this.fixManager.preprocessHtmlForAI(originalHtml) }));
+            fetchFeedback(useImage ? this.currentImageDataUrl : null, promptForAi, processedHtml, this.currentElementInsertionMode, elements);
         } catch (e) {
             this.showError('Failed to process HTML before sending.');
         }
@@ -440,6 +717,60 @@ export class CheckraImplementation {
     }
   }
 
+  private extractAndStoreGroupHtml(): void {
+    const group = this.groupForCurrentCycle;
+    if (!group || group.fixedHtml) return;
+    const lastAiItem = [...this.conversationHistory].reverse().find(it => it.type === 'ai');
+    if (!lastAiItem) return;
+
+    const fragments = this.fixManager.extractGroupHtml(lastAiItem.content, group.members.length);
+    if (fragments) {
+      group.fixedHtml = fragments;
+      lastAiItem.content = lastAiItem.content.replace(/```(?:html)?\n[\s\S]*?\n```/gi, '').trim();
+    } else if (/```(?:html)?\n/i.test(lastAiItem.content)) {
+      this.showError(`Expected ${group.members.length} HTML blocks, one per selected element, so nothing was applied. Try the prompt again.`);
+    }
+  }
+
+  /** Applies a multi-element response as one linked group and adds its controls to the panel. */
+  private applyGroupForCurrentCycle(requestBody: GenerateSuggestionRequestbody): void {
+    const group = this.groupForCurrentCycle;
+    if (!group?.fixedHtml) return;
+    const fixedHtml = group.fixedHtml;
+    const { groupId, members } = group;
+    const applied = this.fixManager.applyFixGroup(groupId, members.map((member, i) => ({
+      fixId: member.fixId,
+      originalHtml: member.originalHtml,
+      fixedHtml: fixedHtml[i],
+      stableSelector: member.selector,
+    })), requestBody);
+
+    // Follow-up prompts refine one fix at a time, so the group selection ends here
+    this.removeSelectionHighlight();
+    this.groupForCurrentCycle = null;
+    this.currentFixId = null;
+    this.originalOuterHTMLForCurrentCycle = null;
+    this.stableSelectorForCurrentCycle = null;
+    if (applied.length === 0) return;
+
+    this.domManager?.appendHistoryElement(createFixGroupCard(
+      members.filter(member => applied.includes(member.fixId)).map(member => member.selector),
+      {
+        getState: () => {
+          const fixes = this.fixManager.getFixGroup(groupId).map(fixId => this.fixManager.getAppliedFixes().get(fixId)!);
+          if (fixes.length === 0) return 'removed';
+          return fixes.every(fix => fix.isCurrentlyFixed) ? 'fixed' : 'original';
+        },
+        copy: () => { void this.fixManager.copyGroupPrompt(groupId); },
+        toggle: () => {
+          const fixes = this.fixManager.getFixGroup(groupId).map(fixId => this.fixManager.getAppliedFixes().get(fixId)!);
+          this.fixManager.setGroupFixed(groupId, !fixes.every(fix => fix.isCurrentlyFixed));
+        },
+        discard: () => { this.fixManager.discardGroup(groupId); },
+      }
+    ));
+  }
+
   public toggle(): void {
     this.isVisible ? this.hide(true, false) : this.showFromApi(true);
   }
@@ -472,16 +803,454 @@ export class CheckraImplementation {
     }
   }
 
+  /**
+   * Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z redoes fix operations, unless focus is
+   * in an editable field (so native text undo keeps working there).
+   */
+  private handleUndoRedoKey(event: KeyboardEvent): void {
+    if (event.key.toLowerCase() !== 'z' || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || target.closest('input, textarea, select'))) return;
+
+    const action = event.shiftKey ? 'redo' : 'undo';
+    if (action === 'undo' ? !this.fixManager.canUndo : !this.fixManager.canRedo) return;
+    event.preventDefault();
+    this.runFixHistoryCommand(action);
+  }
+
+  /**
+   * `/stats [goal]`: fetches per-variant counts from tracking.statsUrl and renders
+   * impressions, conversions, rate and significance vs control.
+   */
+  private async showExperimentStats(goal?: string): Promise<void> {
+    const statsUrl = getStatsUrl();
+    if (!statsUrl) {
+      this.renderUserMessage('No stats source configured. Set <code>tracking.statsUrl</code> in your Checkra config.');
+      return;
+    }
+    this.domManager?.updateLoaderVisibility(true, 'Loading stats...');
+    try {
+      const experimentId = getVariantAssignment()?.experimentId;
+      const summary = summarizeExperimentStats(await fetchExperimentStats(statsUrl, experimentId), goal);
+      this.renderAiMessage(this.formatStatsMarkdown(summary, goal));
+    } catch (error) {
+      customError('[Checkra] Failed to load stats:', error);
+      this.showError(`Failed to load stats: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.domManager?.updateLoaderVisibility(false);
+    }
+  }
+
+  /**
+   * Runs the local accessibility rules over the selected element, or the whole page
+   * when nothing is selected or `wholePage` is set. Findings for a selection are
+   * kept and sent along with the next prompt for it.
+   */
+  private runAccessibilityCheck(wholePage: boolean): void {
+    const selection = !wholePage && this.currentFixId && this.currentlyHighlightedElement?.isConnected
+      ? this.currentlyHighlightedElement
+      : null;
+    const findings = runAccessibilityChecks(selection ?? document.body);
+    const scope = selection ? 'the selected element' : 'this page';
+
+    if (findings.length === 0) {
+      this.renderAiMessage(`**Accessibility check:** no issues found in ${scope}.`);
+      return;
+    }
+    if (selection && this.currentFixId) {
+      this.a11yFindingsForCurrentCycle = { fixId: this.currentFixId, findings };
+    }
+    const hint = selection
+      ? '\n\nThese findings will be sent as context with your next prompt for this element, e.g. "Fix the accessibility issues".'
+      : '\n\nSelect an element and run `/a11y` to fix its issues with a prompt.';
+    this.renderAiMessage(`**Accessibility check** of ${scope}: ${findings.length} issue${findings.length === 1 ? '' : 's'}\n\n${formatA11yFindings(findings)}${hint}`);
+  }
+
+  /**
+   * Checks the page's metadata and <head> tags locally, then asks the AI for
+   * replacement tags. The response is applied like any other fix (target 'head'),
+   * so it can be toggled, undone, copied, saved and published.
+   */
+  private async runSeoAudit(): Promise<void> {
+    if (!this.domManager) return;
+    try {
+      const findings = runSeoChecks(await getPageMetadata());
+      const problems = findings.filter(f => f.status === 'warn' || f.status === 'fail');
+      this.renderAiMessage(`**SEO check**\n\n${formatSeoFindings(findings)}`);
+      if (problems.length === 0) return;
+
+      // Re-running /seo refines the existing head fix instead of stacking a second one
+      const existing = Array.from(this.fixManager.getAppliedFixes().values()).find(fix => fix.stableTargetSelector === HEAD_TARGET_SELECTOR);
+      this.removeSelectionHighlight();
+      this.resetStateForNewSelection();
+      this.currentFixId = existing?.originalElementId ?? `checkra-fix-${this.fixIdCounter++}`;
+      this.originalOuterHTMLForCurrentCycle = existing?.fixedOuterHTML ?? collectHeadTagsHtml();
+      this.stableSelectorForCurrentCycle = HEAD_TARGET_SELECTOR;
+      this.currentElementInsertionMode = 'replace';
+      this.currentlyHighlightedElement = null;
+
+      const prompt = [
+        'Improve the SEO metadata of this page. These are its current <head> tags; these checks failed:',
+        problems.map(f => `- ${f.message}`).join('\n'),
+        'Reply with the complete replacement tags (title, meta description, Open Graph incl. og:image, Twitter card, canonical link, hreflang alternates if relevant, JSON-LD) in a single ```html code block, based on the visible page content. Only <head> tags, no <head> element itself.',
+      ].join('\n\n');
+
+      this.domManager.setPromptState(false);
+      this.domManager.updateSubmitButtonState(false);
+      this.domManager.updateLoaderVisibility(true, 'Proposing <head> tags…');
+      this.conversationController.addUserMessage('/seo');
+      this.activeStreamingAiItem = this.conversationController.startStreamingAi();
+      this.domManager.appendHistoryItem(this.activeStreamingAiItem);
+      this.conversationHistory = this.conversationController.items;
+      // Head tags are sent as-is; preprocessHtmlForAI would drop them while parsing a body
+      fetchFeedback(null, prompt, this.originalOuterHTMLForCurrentCycle || '<title></title>', 'replace');
+    } catch (error) {
+      customError('[Checkra] SEO check failed:', error);
+      this.showError(`SEO check failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Shows offline copy metrics for the selection (or the page). For an applied fix
+   * the original and the active revision are compared.
+   */
+  private showCopyMetrics(): void {
+    const fix = this.currentFixId ? this.fixManager.getAppliedFixes().get(this.currentFixId) : undefined;
+    if (fix) {
+      this.renderAiMessage(`**Copy metrics** (original vs. current fix)\n\n${formatCopyMetricsTable(analyzeHtmlCopy(fix.fixedOuterHTML), analyzeHtmlCopy(fix.originalOuterHTML))}`);
+      return;
+    }
+    const selection = this.currentFixId && this.currentlyHighlightedElement?.isConnected ? this.currentlyHighlightedElement : null;
+    const metrics = analyzeElementCopy(selection ?? document.body);
+    if (metrics.words === 0) {
+      this.renderUserMessage('No text to analyse in the selection.');
+      return;
+    }
+    this.renderAiMessage(`**Copy metrics** of ${selection ? 'the selected element' : 'this page'} (${metrics.words} words)\n\n${formatCopyMetricsTable(metrics)}`);
+  }
+
+  /**
+   * `/replace "old" "new"`: highlights every occurrence of the text on the page and
+   * lists them in the panel, to be replaced one by one or all at once. Each
+   * affected block becomes a fix (text inside an applied fix adds a revision).
+   */
+  private startTextReplace(promptText: string): void {
+    const command = parseReplaceCommand(promptText);
+    if (!command) {
+      this.renderUserMessage('Usage: <code>/replace "old text" "new text"</code>');
+      return;
+    }
+    this.replacePreview?.close();
+    if (findReplaceMatches(command).length === 0) {
+      const escaped = document.createElement('span');
+      escaped.textContent = command.find;
+      this.renderUserMessage(`No matches for “${escaped.innerHTML}” on this page.`);
+      return;
+    }
+    const preview = createReplacePreview(command, {
+      findMatches: () => findReplaceMatches(command),
+      replaceOne: async (match) => {
+        const position = positionInBlock(match, command);
+        if (position === -1 || !match.block.isConnected) return;
+        await this.applyTextReplacement(command, [{ block: match.block, positions: new Set([position]) }]);
+      },
+      replaceAll: async (matches) => {
+        const blocks = outermostBlocks(matches.map(match => match.block)).filter(block => block.isConnected);
+        // Counted up front: replacing swaps the blocks (and nested ones) out of the page
+        const matchCounts = new Map(blocks.map(block => [block, matches.filter(match => block.contains(match.block)).length]));
+        const replacedBlocks = await this.applyTextReplacement(command, blocks.map(block => ({ block })));
+        const replaced = replacedBlocks.reduce((total, block) => total + (matchCounts.get(block) ?? 0), 0);
+        this.renderUserMessage(`Replaced ${replaced} ${replaced === 1 ? 'match' : 'matches'} in ${replacedBlocks.length} ${replacedBlocks.length === 1 ? 'block' : 'blocks'}. <code>/undo</code> reverts them in one step.`);
+      },
+      onError: (error) => {
+        customError('[Checkra] Text replacement failed:', error);
+        this.showError(`Text replacement failed: ${error instanceof Error ? error.message : String(error)}`);
+      },
+      onClose: () => { if (this.replacePreview === preview) this.replacePreview = null; },
+    });
+    this.replacePreview = preview;
+    this.domManager?.appendHistoryElement(preview.element);
+  }
+
+  /**
+   * Applies replacements block by block, as one undo step. Returns the blocks that
+   * were changed.
+   */
+  private async applyTextReplacement(command: ReplaceCommand, targets: Array<{ block: HTMLElement; positions?: Set<number> }>): Promise<HTMLElement[]> {
+    const requestBody: GenerateSuggestionRequestbody = {
+      prompt: `/replace "${command.find}" "${command.replacement}"`,
+      metadata: await getPageMetadata(),
+      aiSettings: getCurrentAiSettings(),
+      insertionMode: 'replace',
+    };
+    const changed: HTMLElement[] = [];
+    this.fixManager.recordAsOneStep(() => {
+      targets.forEach(({ block, positions }) => {
+        if (this.applyReplacementToBlock(block, command, requestBody, positions)) changed.push(block);
+      });
+    });
+    return changed;
+  }
+
+  private applyReplacementToBlock(block: HTMLElement, command: ReplaceCommand, requestBody: GenerateSuggestionRequestbody, positions?: Set<number>): boolean {
+    const edited = replaceInBlock(block, command, positions);
+
+    // Text inside an applied fix: add a revision with the edited content
+    const fixMatch = block.matches('.checkra-applied-fix-content') ? this.findAppliedFixFor(block) : null;
+    if (fixMatch) {
+      const { fixId, fixInfo } = fixMatch;
+      const revisions = fixInfo.revisions.length;
+      this.fixManager.applyFix(fixId, fixInfo.originalOuterHTML, edited.innerHTML.trim(), fixInfo.insertionMode, { ...requestBody, html: fixInfo.fixedOuterHTML }, fixInfo.stableTargetSelector);
+      return fixInfo.revisions.length > revisions;
+    }
+
+    // Anything else becomes a new fix on the block (reusing the selection's fix id if it is the selected element)
+    const cleanCopy = (el: HTMLElement) => {
+      el.removeAttribute('data-checkra-fix-id');
+      Array.from(el.classList).filter(cls => cls.startsWith('checkra-')).forEach(cls => el.classList.remove(cls));
+      if (el.getAttribute('class') === '') el.removeAttribute('class');
+      return el.outerHTML;
+    };
+    const originalHtml = cleanCopy(block.cloneNode(true) as HTMLElement);
+    const fixedHtml = cleanCopy(edited);
+    const fixId = block.getAttribute('data-checkra-fix-id') ?? `checkra-fix-${this.fixIdCounter++}`;
+    const selector = generateStableSelector(block);
+    block.setAttribute('data-checkra-fix-id', fixId);
+    this.fixManager.applyFix(fixId, originalHtml, fixedHtml, 'replace', { ...requestBody, html: originalHtml }, selector);
+    return this.fixManager.getAppliedFixes().has(fixId);
+  }
+
+  /**
+   * `/edit`: makes the selection's text editable in place. Saving applies the edit
+   * through FixManager.applyFix like an AI response (a new revision when the
+   * selection is an applied fix), with no request to the AI.
+   */
+  private startInlineEdit(): void {
+    if (this.inlineEditSession) {
+      this.renderUserMessage('Already editing. Press <kbd>Enter</kbd> to save or <kbd>Esc</kbd> to cancel.');
+      return;
+    }
+    const fixId = this.currentFixId;
+    const selected = this.currentlyHighlightedElement;
+    if (this.groupForCurrentCycle) {
+      this.renderUserMessage('<code>/edit</code> works on one element at a time. Select a single element.');
+      return;
+    }
+    if (!fixId || !(selected instanceof HTMLElement) || !selected.isConnected || this.stableSelectorForCurrentCycle === HEAD_TARGET_SELECTOR) {
+      this.showError(`First select an element on your website using the ${SELECT_SVG_ICON}`);
+      return;
+    }
+    const existing = this.fixManager.getAppliedFixes().get(fixId);
+    if (existing && !existing.isCurrentlyFixed) {
+      this.renderUserMessage('This fix is showing its original version. Switch it back to the fixed version to edit it.');
+      return;
+    }
+    if (!existing && this.currentElementInsertionMode !== 'replace') {
+      this.renderUserMessage('<code>/edit</code> changes the selected element itself. Select it away from its top or bottom edge.');
+      return;
+    }
+    // An applied fix is edited through its rendered content, the page element directly otherwise
+    const target = existing
+      ? existing.appliedWrapperElement?.querySelector<HTMLElement>(':scope > .checkra-applied-fix-content') ?? null
+      : selected;
+    const originalHtml = existing?.originalOuterHTML ?? this.originalOuterHTMLForCurrentCycle;
+    const selector = existing?.stableTargetSelector ?? this.stableSelectorForCurrentCycle;
+    if (!target || !originalHtml || !selector) return;
+
+    this.removeSelectionHighlight();
+    const session = startInlineEdit(target, result => {
+      this.inlineEditSession = null;
+      void this.applyInlineEdit(result, { fixId, originalHtml, selector, isRevision: !!existing });
+    });
+    if (!session) {
+      this.updateSelectionVisuals(selected, 'replace');
+      this.renderUserMessage('The selected element has no text to edit.');
+      return;
+    }
+    this.inlineEditSession = session;
+    this.renderUserMessage('Editing text in place. Press <kbd>Enter</kbd> or Save to apply it as a fix, <kbd>Esc</kbd> to cancel.');
+  }
+
+  private async applyInlineEdit(
+    result: InlineEditResult | null,
+    target: { fixId: string; originalHtml: string; selector: string; isRevision: boolean }
+  ): Promise<void> {
+    if (!result) {
+      this.renderUserMessage('Edit cancelled.');
+      return;
+    }
+    if (!result.changed) {
+      this.renderUserMessage('No text was changed.');
+      return;
+    }
+    const { fixId, originalHtml, selector, isRevision } = target;
+    const before = isRevision ? this.fixManager.getAppliedFixes().get(fixId)?.fixedOuterHTML ?? originalHtml : originalHtml;
+    let fixedHtml: string;
+    if (isRevision) {
+      fixedHtml = result.element.innerHTML.trim();
+    } else {
+      result.element.removeAttribute('data-checkra-fix-id');
+      // Removing the selection classes can leave an empty class attribute behind
+      if (result.element.getAttribute('class') === '') result.element.removeAttribute('class');
+      fixedHtml = result.element.outerHTML;
+    }
+
+    try {
+      const requestBody: GenerateSuggestionRequestbody = {
+        prompt: '/edit',
+        html: before,
+        metadata: await getPageMetadata(),
+        aiSettings: getCurrentAiSettings(),
+        insertionMode: 'replace',
+      };
+      this.fixManager.applyFix(fixId, originalHtml, fixedHtml, 'replace', requestBody, selector);
+      this.handleFixApplied(fixId, before);
+    } catch (error) {
+      customError('[Checkra] Failed to apply text edit:', error);
+      this.showError(`Failed to apply text edit: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Follow-up after a prompt's fix lands: head fixes get their controls in the panel,
+   * body fixes get before/after copy metrics when they have text on both sides.
+   */
+  private handleFixApplied(fixId: string, beforeHtml: string): void {
+    const fix = this.fixManager.getAppliedFixes().get(fixId);
+    if (!fix) return;
+    if (fix.stableTargetSelector === HEAD_TARGET_SELECTOR) {
+      this.domManager?.appendHistoryElement(createHeadFixCard(fix.fixedOuterHTML, {
+        getState: () => {
+          const current = this.fixManager.getAppliedFixes().get(fixId);
+          return !current ? 'removed' : current.isCurrentlyFixed ? 'fixed' : 'original';
+        },
+        copy: () => { void this.fixManager.copyFixPrompt(fixId); },
+        toggle: () => { this.fixManager.toggleFixVersion(fixId); },
+        discard: () => { this.fixManager.discardFix(fixId); },
+      }));
+      return;
+    }
+    const before = analyzeHtmlCopy(beforeHtml);
+    const after = analyzeHtmlCopy(fix.fixedOuterHTML);
+    if (before.words === 0 || after.words === 0) return;
+    this.renderAiMessage(`**Copy metrics** for this change\n\n${formatCopyMetricsTable(after, before)}`);
+  }
+
+  /** Builds a report of the last audit (scores, analyses, before/after HTML and screenshots) and downloads it. */
+  private async exportAuditReport(format: AuditReportFormat): Promise<void> {
+    if (this.activeAuditRun) {
+      this.renderUserMessage('Wait for the running audit to finish before exporting it.');
+      return;
+    }
+    if (this.auditSectionInfo.size === 0) {
+      this.renderUserMessage('No audit results to export yet. Run <code>/audit</code> or <code>/audit full</code> first.');
+      return;
+    }
+    this.domManager?.updateLoaderVisibility(true, 'Building audit report…');
+    try {
+      const appliedFixes = this.fixManager.getAppliedFixes();
+      const sections = Array.from(this.auditSectionInfo.entries()).map(([index, info]) => ({
+        index,
+        ...info,
+        fix: appliedFixes.get(`audit-${index}`),
+      }));
+      const report = await buildAuditReport(sections, await getPageMetadata());
+      const fileName = downloadAuditReport(report, format);
+      this.renderUserMessage(`Audit report for ${report.sections.length} section${report.sections.length === 1 ? '' : 's'} saved as <code>${fileName}</code>.`);
+    } catch (error) {
+      customError('[Checkra] Failed to export audit report:', error);
+      this.showError(`Failed to export audit report: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.domManager?.updateLoaderVisibility(false);
+    }
+  }
+
+  /** Downloads every applied fix as a JSON manifest, a review diff and/or a Markdown handoff. */
+  private exportChangeset(formats: ChangesetFormat[]): void {
+    const changeset = buildChangeset(this.fixManager.getAppliedFixes().values(), this.fixManager.getCodeTarget());
+    if (changeset.fixes.length === 0) {
+      this.renderUserMessage('No applied fixes to export yet.');
+      return;
+    }
+    try {
+      const fileNames = downloadChangeset(changeset, formats);
+      const count = changeset.fixes.length;
+      this.renderUserMessage(`Exported ${count} fix${count === 1 ? '' : 'es'} as ${fileNames.map(name => `<code>${name}</code>`).join(', ')}.`);
+    } catch (error) {
+      customError('[Checkra] Failed to export changeset:', error);
+      this.showError(`Failed to export fixes: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private formatStatsMarkdown(summary: ExperimentStatsSummary, requestedGoal?: string): string {
+    if (summary.rows.length === 0) return 'No variant data yet.';
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const label = {
+      'baseline': 'baseline',
+      'significant': 'significant',
+      'trending': 'trending',
+      'not significant': 'not significant yet',
+      'insufficient data': 'not enough data',
+    } as const;
+
+    const lines = [
+      `**Impact${summary.experimentId ? ` of \`${summary.experimentId}\`` : ''}**${summary.goal ? ` · goal \`${summary.goal}\`` : ''}`,
+      '',
+      '| Variant | Impressions | Conversions | Rate | vs control |',
+      '|---|---:|---:|---:|---|',
+      ...summary.rows.map(row => {
+        const lift = row.lift === null ? '' : `${row.lift >= 0 ? '+' : ''}${Math.round(row.lift * 100)}% · `;
+        const pValue = row.pValue === null ? '' : ` (p=${row.pValue.toFixed(3)})`;
+        const name = row.variantId.length > 12 ? `${row.variantId.slice(0, 8)}…` : row.variantId;
+        return `| ${name} | ${row.impressions.toLocaleString()} | ${row.conversions.toLocaleString()} | ${percent(row.rate)} | ${lift}${label[row.significance]}${pValue} |`;
+      }),
+    ];
+    if (requestedGoal && summary.goal !== requestedGoal) {
+      lines.push('', `No conversions recorded for \`${requestedGoal}\`.`);
+    }
+    const otherGoals = summary.goals.filter(g => g !== summary.goal);
+    if (otherGoals.length > 0) {
+      lines.push('', `Other goals: ${otherGoals.map(g => `\`${g}\``).join(', ')} — type \`/stats <goal>\` to switch.`);
+    }
+    return lines.join('\n');
+  }
+
+  private renderAiMessage(markdown: string): void {
+    if (!this.domManager) return;
+    const item: ConversationItem = { type: 'ai', content: markdown };
+    this.conversationController.append(item);
+    this.domManager.appendHistoryItem(item);
+    this.conversationHistory = this.conversationController.items;
+  }
+
+  private runFixHistoryCommand(action: 'undo' | 'redo'): void {
+    const result = action === 'undo' ? this.fixManager.undo() : this.fixManager.redo();
+    if (result.status === 'empty') {
+      this.renderUserMessage(`Nothing to ${action}.`);
+      return;
+    }
+    const { entry } = result;
+    const labels = { apply: 'applied fix', discard: 'discarded fix', toggle: 'toggled fix', revision: 'fix revision change' };
+    const groupSize = entry.linked?.length ? ` (group of ${entry.linked.length + 1})` : '';
+    if (result.status === 'failed') {
+      this.renderUserMessage(`Could not ${action} ${labels[entry.op]}${groupSize}: the page no longer matches it, so it was removed from the history.`);
+      return;
+    }
+    this.renderUserMessage(`${action === 'undo' ? 'Undid' : 'Redid'} ${labels[entry.op]}${groupSize}.`);
+  }
+
   private addGlobalListeners(): void {
     if (this.boundHandleEscapeKey) {
       document.addEventListener('keydown', this.boundHandleEscapeKey);
     }
+    document.addEventListener('keydown', this.boundHandleUndoRedoKey);
   }
 
   private removeGlobalListeners(): void {
     if (this.boundHandleEscapeKey) {
         document.removeEventListener('keydown', this.boundHandleEscapeKey);
     }
+    document.removeEventListener('keydown', this.boundHandleUndoRedoKey);
   }
 
   public showFromApi(triggeredByUserAction: boolean = false): void {
@@ -515,13 +1284,12 @@ export class CheckraImplementation {
   }
 
   private removeSelectionHighlight(): void {
-    if (this.currentlyHighlightedElement) {
-      this.currentlyHighlightedElement.classList.remove(
-        'checkra-selected-element-outline', 'checkra-hover-top', 'checkra-hover-bottom',
-        'checkra-highlight-container', 'checkra-selected-insert-before',
-        'checkra-selected-insert-after', 'checkra-selected-replace', 'checkra-element-dimmed'
-      );
-    }
+    const highlighted = [this.currentlyHighlightedElement, ...(this.groupForCurrentCycle?.members.map(member => member.element) ?? [])];
+    highlighted.forEach(element => element?.classList.remove(
+      'checkra-selected-element-outline', 'checkra-hover-top', 'checkra-hover-bottom',
+      'checkra-highlight-container', 'checkra-selected-insert-before',
+      'checkra-selected-insert-after', 'checkra-selected-replace', 'checkra-element-dimmed'
+    ));
     if (this.selectionPlusIconElement) {
       this.selectionPlusIconElement.remove();
       this.selectionPlusIconElement = null;
@@ -537,10 +1305,7 @@ export class CheckraImplementation {
       this.renderUserMessage("No changes applied.");
       return;
     }
-    const changes = Array.from(this.fixManager.getAppliedFixes().values()).map(fix => ({
-      targetSelector: fix.stableTargetSelector,
-      appliedHtml: fix.fixedOuterHTML,
-    }));
+    const changes = this.buildSnapshotChanges();
     const siteId = getSiteId();
     const snapshotId = crypto.randomUUID();
     const payload = { snapshotId, changes, publish: true, pageUrl: window.location.href };
@@ -635,10 +1400,7 @@ export class CheckraImplementation {
   private async saveSnapshotAsDraft(): Promise<void> {
     if (this.fixManager.count === 0) return;
 
-    const changes = Array.from(this.fixManager.getAppliedFixes().values()).map(fix => ({
-      targetSelector: fix.stableTargetSelector,
-      appliedHtml: fix.fixedOuterHTML,
-    }));
+    const changes = this.buildSnapshotChanges();
     const siteId = getSiteId();
     const snapshotId = crypto.randomUUID();
     const payload = { snapshotId, changes, pageUrl: window.location.href, publish: false };
@@ -694,15 +1456,30 @@ export class CheckraImplementation {
   }
 
   private handleDomUpdate(data: { html: string; insertionMode: 'replace' | 'insertBefore' | 'insertAfter' }): void {
-    if (!this.currentlyHighlightedElement) {
+    if (!this.currentlyHighlightedElement && this.stableSelectorForCurrentCycle !== HEAD_TARGET_SELECTOR) {
       this.showError('No element was selected to apply the changes to.');
       return;
     }
     const { html, insertionMode } = data;
+    const group = this.groupForCurrentCycle;
+    if (group) {
+      const fenced = /^```/.test(html.trim()) ? html : `\`\`\`html\n${html}\n\`\`\``;
+      group.fixedHtml = this.fixManager.extractGroupHtml(fenced, group.members.length);
+      if (!group.fixedHtml) {
+        this.showError(`Expected ${group.members.length} HTML fragments, one per selected element, so nothing was applied.`);
+        return;
+      }
+      // The group card is appended to the panel, so the stream has to end first
+      this.finalizeStreamForDomUpdate();
+      if (this.requestBodyForCurrentCycle) this.applyGroupForCurrentCycle(this.requestBodyForCurrentCycle);
+      this.requestBodyForCurrentCycle = null;
+      return;
+    }
     let finalHtmlToApply = html.match(/^```(?:html)?\n([\s\S]*?)\n```$/i)?.[1]?.trim() ?? html;
     finalHtmlToApply = this.fixManager.postprocessHtmlFromAI(finalHtmlToApply);
     
     if (!this.currentFixId || !this.originalOuterHTMLForCurrentCycle || !this.requestBodyForCurrentCycle || !this.stableSelectorForCurrentCycle) {
+      if (!this.currentlyHighlightedElement) return;
       try {
         switch (insertionMode) {
           case 'insertBefore': this.currentlyHighlightedElement.insertAdjacentHTML('beforebegin', finalHtmlToApply); break;
@@ -714,14 +1491,23 @@ export class CheckraImplementation {
       return;
     }
     this.fixManager.applyFix(this.currentFixId, this.originalOuterHTMLForCurrentCycle, finalHtmlToApply, insertionMode, this.requestBodyForCurrentCycle, this.stableSelectorForCurrentCycle);
-    if (this.activeStreamingAiItem) {
-        this.activeStreamingAiItem.isStreaming = false;
-        this.domManager?.updateLastAIMessage(this.activeStreamingAiItem.content, false);
-    }
-    this.activeStreamingAiItem = null;
+    this.finalizeStreamForDomUpdate();
+    this.handleFixApplied(this.currentFixId, this.originalOuterHTMLForCurrentCycle);
     this.requestBodyForCurrentCycle = null;
   }
 
+  /**
+   * Ends the streamed reply when the backend sends the fix directly. Must run before
+   * anything else is appended to the panel: updateLastAIMessage targets the last
+   * bubble, and the conversation only updates a stream that is still its last item.
+   */
+  private finalizeStreamForDomUpdate(): void {
+    const finalized = this.conversationController.finalizeStreaming();
+    if (finalized) this.domManager?.updateLastAIMessage(finalized.content, false);
+    this.activeStreamingAiItem = null;
+    this.conversationHistory = this.conversationController.items;
+  }
+
   private showReplaceLoader(targetElement: Element): void {
     this.pageReplaceLoaderElement?.remove();
     this.pageReplaceLoaderElement = createCenteredLoaderElement();
@@ -750,31 +1536,104 @@ export class CheckraImplementation {
   }
 
   private handleAuditClick(): void {
+    this.startAudit('aboveFold');
+  }
+
+  /**
+   * Runs an audit. 'aboveFold' sends up to three sections in the first viewport in
+   * one request; 'fullPage' walks every qualifying section down the page and sends
+   * them through fetchAudit in batches, with per-section progress in the panel.
+   */
+  private async startAudit(mode: AuditMode): Promise<void> {
     if (!this.domManager) return;
+    if (this.activeAuditRun) {
+      this.renderUserMessage('An audit is already running.');
+      return;
+    }
     // Show page scan loader
     this.showPageScanLoader();
-    const sections = this.scanAboveFoldSections();
+    const sections = this.scanAuditSections(mode);
     if (sections.length === 0) {
-      this.showError('No sections found above the fold.');
+      this.hidePageScanLoader();
+      this.showError(mode === 'fullPage' ? 'No sections found on this page.' : 'No sections found above the fold.');
       return;
     }
     // Map for later look-up
     this.auditSectionInfo.clear();
     sections.forEach(sec => {
-      this.auditSectionInfo.set(sec.idx, { selector: sec.selector, originalHtml: sec.originalHtml });
+      const element = document.querySelector(`[data-checkra-fix-id="audit-placeholder-${sec.idx}"]`);
+      const a11y = element ? runAccessibilityChecks(element) : undefined;
+      this.auditSectionInfo.set(sec.idx, { selector: sec.selector, originalHtml: sec.originalHtml, label: sec.label, a11y });
     });
     // Show spinner and history entry
     this.domManager.updateLoaderVisibility(true, 'Auditing page…');
-    this.conversationController.addUserMessage('/audit');
-    this.domManager.appendHistoryItem({ type: 'user', content: 'Running quick audit…' });
-    // fire request
-    import('../services/ai-service').then(mod => {
-      (mod as any).fetchAudit(sections);
-    });
+    this.conversationController.addUserMessage(mode === 'fullPage' ? '/audit full' : '/audit');
+    this.domManager.appendHistoryItem({ type: 'user', content: mode === 'fullPage' ? `Running full-page audit of ${sections.length} sections…` : 'Running quick audit…' });
+
+    const run: NonNullable<typeof this.activeAuditRun> = { mode, progress: null, currentBatch: [] };
+    if (mode === 'fullPage') {
+      run.progress = new AuditProgressView(
+        sections.map(sec => ({ idx: sec.idx, label: `${sec.idx + 1}. ${sec.label}` })),
+        idx => this.scrollToAuditSection(idx)
+      );
+      this.domManager.appendHistoryElement(run.progress.element);
+    }
+    this.activeAuditRun = run;
+
+    const { fetchAudit } = await import('../services/ai-service');
+    const batchSize = mode === 'fullPage' ? AUDIT_BATCH_SIZE : sections.length;
+    for (let start = 0; start < sections.length; start += batchSize) {
+      if (this.activeAuditRun !== run) return; // cancelled
+      const batch = sections.slice(start, start + batchSize);
+      run.currentBatch = batch.map(sec => sec.idx);
+      batch.forEach(sec => run.progress?.setStatus(sec.idx, 'auditing'));
+      if (mode === 'fullPage') {
+        this.domManager?.updateLoaderVisibility(true, `Auditing sections ${start + 1}–${start + batch.length} of ${sections.length}…`);
+      }
+      await fetchAudit(batch.map(({ idx, selector, html }) => ({ idx, selector, html: this.withA11yContext(idx, html) })));
+      // Sections the backend returned nothing for
+      run.progress?.settlePending('skipped', run.currentBatch);
+    }
+    if (this.activeAuditRun === run) this.finishAuditRun();
   }
 
-  private scanAboveFoldSections(): Array<{ idx: number; selector: string; html: string; originalHtml: string }> {
-    const results: { idx: number; selector: string; html: string; originalHtml: string }[] = [];
+  /** Prefixes a section's HTML with its local accessibility findings, so the audit fix can address them. */
+  private withA11yContext(idx: number, html: string): string {
+    const findings = this.auditSectionInfo.get(idx)?.a11y;
+    if (!findings?.length) return html;
+    return `<!-- ${formatA11yFindingsForPrompt(findings).replace(/--/g, '—')} -->\n${html}`;
+  }
+
+  private finishAuditRun(): void {
+    this.activeAuditRun = null;
+    this.domManager?.updateLoaderVisibility(false);
+    this.hidePageScanLoader();
+  }
+
+  private markAuditSectionsFailed(section: number): void {
+    const run = this.activeAuditRun;
+    if (!run?.progress) return;
+    // section -1 means the whole request failed
+    const failed = section >= 0 ? [section] : run.currentBatch;
+    failed.forEach(idx => run.progress!.setStatus(idx, 'error'));
+  }
+
+  private scrollToAuditSection(idx: number): void {
+    const info = this.auditSectionInfo.get(idx);
+    const target = document.querySelector(`.checkra-feedback-applied-fix[data-checkra-fix-id="audit-${idx}"]`)
+      ?? document.querySelector(`[data-checkra-fix-id="audit-placeholder-${idx}"]`)
+      ?? (info ? document.querySelector(info.selector) : null);
+    if (!(target instanceof HTMLElement)) {
+      this.renderUserMessage(`Section ${idx + 1} is no longer on the page.`);
+      return;
+    }
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    target.classList.add('checkra-audit-jump-highlight');
+    setTimeout(() => target.classList.remove('checkra-audit-jump-highlight'), 1600);
+  }
+
+  private scanAuditSections(mode: AuditMode): Array<{ idx: number; selector: string; html: string; originalHtml: string; label: string }> {
+    const results: { idx: number; selector: string; html: string; originalHtml: string; label: string }[] = [];
     const foldY = window.scrollY + window.innerHeight;
     const bodyWidth = document.body.clientWidth;
 
@@ -783,15 +1642,15 @@ export class CheckraImplementation {
     const viewportHeight = window.innerHeight;
 
     // Heuristic rules:
-    // 1. Element must be in the top viewport (any overlap with fold)
+    // 1. Element must be in the top viewport (any overlap with fold) – above-fold mode only
     // 2. Not the Checkra panel
     // 3. Min height & width
     // 4. Not gigantic (> 1.8 × viewport height)
     // 5. Sufficient text
     const qualifies = (el: HTMLElement): boolean => {
-      if (el.closest('#checkra-feedback-viewer')) return false;
+      if (el.closest('#checkra-feedback-viewer, .checkra-feedback-applied-fix')) return false;
       const rect = el.getBoundingClientRect();
-      if (rect.top >= foldY || rect.bottom <= 0) return false;
+      if (mode === 'aboveFold' && (rect.top >= foldY || rect.bottom <= 0)) return false;
       if (rect.height < 80) return false;
       if (rect.height > viewportHeight * 1.8) return false; // too tall – likely outer wrapper
       if (rect.width / bodyWidth < 0.6) return false;
@@ -822,10 +1681,16 @@ export class CheckraImplementation {
       const originalHtml = el.outerHTML;
       el.setAttribute('data-checkra-fix-id', `audit-placeholder-${idx}`);
       const html = this.fixManager.preprocessHtmlForAI(el.outerHTML);
-      results.push({ idx, selector, html, originalHtml });
+      results.push({ idx, selector, html, originalHtml, label: sectionLabel(el) });
       picked.push(el);
       idx++;
-      if (idx >= 3) break;
+      if (idx >= (mode === 'fullPage' ? MAX_FULL_PAGE_SECTIONS : 3)) break;
+    }
+
+    function sectionLabel(el: HTMLElement): string {
+      const heading = el.querySelector('h1, h2, h3, h4, h5, h6');
+      const text = (heading?.textContent || el.innerText || '').replace(/\s+/g, ' ').trim();
+      return text.length > 48 ? `${text.slice(0, 47)}…` : text || el.tagName.toLowerCase();
     }
 
     function getDomDepth(node: HTMLElement): number {
@@ -850,7 +1715,7 @@ export class CheckraImplementation {
           const originalHtml = largest.outerHTML;
           largest.setAttribute('data-checkra-fix-id', 'audit-placeholder-0');
           const html = this.fixManager.preprocessHtmlForAI(largest.outerHTML);
-          results.push({ idx:0, selector, html, originalHtml });
+          results.push({ idx:0, selector, html, originalHtml, label: sectionLabel(largest) });
         }
       }
     }
@@ -867,20 +1732,48 @@ export class CheckraImplementation {
   }
 
   private handleAuditRating(payload: any): void {
+    // Scorecards await the score history, so handle ratings one at a time to keep them in order
+    this.auditRatingQueue = this.auditRatingQueue
+      .then(() => this.showAuditRating(payload))
+      .catch(err => customError('[Checkra] Failed to show audit scorecard:', err));
+  }
+
+  private async showAuditRating(payload: any): Promise<void> {
     const { section, scores } = payload;
-    const content = `Section ${section} scorecard:\n• Message clarity: ${scores.messageClarity}\n• Action strength: ${scores.actionStrength}\n• Trust & credibility: ${scores.trustCredibility}\n• Reading ease: Grade ${scores.readingEase}`;
-    this.conversationController.append({ type: 'ai', content });
-    this.domManager?.appendHistoryItem({ type: 'ai', content });
     const info = this.auditSectionInfo.get(section);
     if (info) {
       info.scores = scores;
       this.auditSectionInfo.set(section, info);
     }
+    this.activeAuditRun?.progress?.setStatus(section, 'scored', `Clarity ${scores.messageClarity} · Action ${scores.actionStrength}`);
+
+    // Compare against the last run of the same section on this page
+    const pageKey = FixStore.currentPageKey();
+    const history = info ? await loadAuditScoreHistory(pageKey, info.selector) : [];
+    const previous = history[history.length - 1]?.scores;
+    const lines = describeScoreChanges(scores, previous).map(line => `• ${line}`);
+    if (info) {
+      lines.push(`• Reading grade (local Flesch-Kincaid): ${analyzeHtmlCopy(info.originalHtml).fleschKincaidGrade.toFixed(1)}`);
+    }
+    if (info?.a11y) {
+      lines.push(info.a11y.length === 0
+        ? '• Accessibility (local checks): no issues found'
+        : `• Accessibility (local checks): ${info.a11y.length} issue${info.a11y.length === 1 ? '' : 's'}\n${formatA11yFindings(info.a11y.slice(0, 5))}`);
+    }
+    const content = `Section ${section + 1} scorecard${previous ? ' (vs. previous audit)' : ''}:\n${lines.join('\n')}`;
+    this.conversationController.append({ type: 'ai', content });
+    this.domManager?.appendHistoryItem({ type: 'ai', content });
+    if (!info) return;
+
+    const entry = { pageKey, selector: info.selector, label: info.label, scores, recordedAt: Date.now() };
+    await recordAuditScores(entry);
+    const chart = createAuditTrendChart([...history, entry], `Section ${section + 1}: ${info.label}`);
+    if (chart) this.domManager?.appendHistoryElement(chart);
   }
 
   private handleAuditAnalysis(payload: any): void {
     const { section, content } = payload;
-    const msg = `Section ${section} analysis:\n${content}`;
+    const msg = `Section ${section + 1} analysis:\n${content}`;
     this.conversationController.append({ type: 'ai', content: msg });
     this.domManager?.appendHistoryItem({ type: 'ai', content: msg });
     const info = this.auditSectionInfo.get(section);
@@ -908,8 +1801,8 @@ export class CheckraImplementation {
     // Remove any audit placeholder attributes from the raw HTML string
     const finalCleanedHtml = cleanedHtml.replace(/\s*data-checkra-fix-id="audit-placeholder-\d+"/g, '');
     
-    // First response -> hide scan loader
-    this.hidePageScanLoader();
+    // First response -> hide scan loader (a full-page audit keeps it until the last batch)
+    if (this.activeAuditRun?.mode !== 'fullPage') this.hidePageScanLoader();
 
     // Pass scores/analysis if already available so the info button renders immediately
     this.fixManager.applyFix(
@@ -928,10 +1821,13 @@ export class CheckraImplementation {
     if (fixInfo) {
       if (info.scores) fixInfo.auditScores = info.scores;
       if (info.analysis) fixInfo.auditAnalysis = info.analysis;
+      this.activeAuditRun?.progress?.setStatus(section, 'fixed');
     }
   }
 
   private handleAuditComplete(): void {
+    // Each fetchAudit call completes once; startAudit finishes the run after the last batch
+    if (this.activeAuditRun) return;
     this.domManager?.updateLoaderVisibility(false);
     this.hidePageScanLoader();
   }
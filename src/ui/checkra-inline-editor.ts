@@ -0,0 +1,141 @@
+export interface InlineEditSession {
+  commit(): void;
+  cancel(): void;
+}
+
+/** What an edit produced: the edited copy of the root (detached, editing attributes removed). */
+export interface InlineEditResult {
+  element: HTMLElement;
+  changed: boolean;
+}
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'svg']);
+
+function hasOwnText(el: Element): boolean {
+  return Array.from(el.childNodes).some(node => node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim() !== '');
+}
+
+/** The outermost elements under `root` (itself included) that directly hold text. */
+function findTextContainers(root: HTMLElement): HTMLElement[] {
+  const containers: HTMLElement[] = [];
+  const visit = (el: Element) => {
+    if (SKIPPED_TAGS.has(el.tagName)) return;
+    if (el instanceof HTMLElement && hasOwnText(el)) {
+      containers.push(el);
+      return;
+    }
+    Array.from(el.children).forEach(visit);
+  };
+  visit(root);
+  return containers;
+}
+
+function makeEditable(el: HTMLElement): void {
+  try {
+    // Keeps pasted or typed content plain text where the browser supports it
+    el.contentEditable = 'plaintext-only';
+  } catch {
+    el.contentEditable = 'true';
+  }
+}
+
+function createToolbar(onSave: () => void, onCancel: () => void): HTMLDivElement {
+  const toolbar = document.createElement('div');
+  toolbar.className = 'checkra-inline-edit-toolbar';
+  const label = document.createElement('span');
+  label.textContent = 'Editing text';
+  const makeButton = (text: string, className: string, onClick: () => void) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = className;
+    button.textContent = text;
+    button.addEventListener('mousedown', e => e.preventDefault()); // keep the caret where it is
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return button;
+  };
+  toolbar.append(label, makeButton('Save', 'checkra-inline-edit-save', onSave), makeButton('Cancel', 'checkra-inline-edit-cancel', onCancel));
+  return toolbar;
+}
+
+/**
+ * Lets the user edit the copy inside `root` in place. The edits happen on a copy
+ * of `root` swapped into the page, so the original element (and anything the page
+ * attached to it) is put back untouched when editing ends, either way. Only the
+ * elements that directly hold text become contenteditable, which keeps the
+ * surrounding markup from being changed by accident.
+ *
+ * Enter or Save commits, Shift+Enter adds a line break, Escape or Cancel cancels.
+ * `onFinish` gets the edited copy, or null when cancelled. Returns null when
+ * `root` has no text to edit.
+ */
+export function startInlineEdit(root: HTMLElement, onFinish: (result: InlineEditResult | null) => void): InlineEditSession | null {
+  const draft = root.cloneNode(true) as HTMLElement;
+  const containers = findTextContainers(draft);
+  if (containers.length === 0) return null;
+
+  const initialHtml = draft.outerHTML;
+  const previousEditable = containers.map(el => el.getAttribute('contenteditable'));
+  root.replaceWith(draft);
+  draft.classList.add('checkra-inline-editing');
+  containers.forEach(makeEditable);
+
+  let finished = false;
+  const finish = (commit: boolean) => {
+    if (finished) return;
+    finished = true;
+    document.removeEventListener('keydown', onKeydown, true);
+    draft.removeEventListener('click', onClick, true);
+    draft.removeEventListener('paste', onPaste);
+    toolbar.remove();
+
+    containers.forEach((el, i) => {
+      const previous = previousEditable[i];
+      if (previous === null) el.removeAttribute('contenteditable');
+      else el.setAttribute('contenteditable', previous);
+    });
+    draft.classList.remove('checkra-inline-editing');
+    draft.replaceWith(root);
+    onFinish(commit ? { element: draft, changed: draft.outerHTML !== initialHtml } : null);
+  };
+
+  const onKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      finish(false);
+      return;
+    }
+    if (!draft.contains(e.target as Node)) return;
+    // Page and Checkra shortcuts (undo, panel toggles) stay out of the way while typing
+    e.stopPropagation();
+    if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+      e.preventDefault();
+      finish(true);
+    }
+  };
+  // Links and buttons in the copy shouldn't navigate or submit while it is being edited
+  const onClick = (e: MouseEvent) => e.preventDefault();
+  // contenteditable="true" fallback: keep pasted content plain text
+  const onPaste = (e: ClipboardEvent) => {
+    const text = e.clipboardData?.getData('text/plain');
+    if (text === undefined) return;
+    e.preventDefault();
+    document.execCommand('insertText', false, text);
+  };
+
+  const toolbar = createToolbar(() => finish(true), () => finish(false));
+  const rect = draft.getBoundingClientRect();
+  toolbar.style.top = `${Math.max(0, rect.top + window.scrollY - 36)}px`;
+  toolbar.style.left = `${rect.left + window.scrollX}px`;
+  document.body.appendChild(toolbar);
+
+  document.addEventListener('keydown', onKeydown, true);
+  draft.addEventListener('click', onClick, true);
+  draft.addEventListener('paste', onPaste);
+  containers[0].focus();
+
+  return { commit: () => finish(true), cancel: () => finish(false) };
+}
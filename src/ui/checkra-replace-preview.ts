@@ -0,0 +1,163 @@
+import { matchContext, matchRange, type ReplaceCommand, type ReplaceMatch } from '../utils/text-replace';
+
+const MATCH_HIGHLIGHT = 'checkra-replace-match';
+const CURRENT_HIGHLIGHT = 'checkra-replace-current';
+/** Longer lists only get "Replace all"; the page highlights still show every match. */
+const MAX_LISTED_MATCHES = 50;
+
+export interface ReplacePreview {
+  element: HTMLElement;
+  close(): void;
+}
+
+/**
+ * Highlights ranges without touching the page's DOM where the CSS Custom
+ * Highlight API exists, and with positioned boxes elsewhere.
+ */
+function highlightRanges(ranges: Range[], current: Range | null): () => void {
+  if (typeof Highlight !== 'undefined' && CSS.highlights) {
+    CSS.highlights.set(MATCH_HIGHLIGHT, new Highlight(...ranges));
+    if (current) CSS.highlights.set(CURRENT_HIGHLIGHT, new Highlight(current));
+    return () => {
+      CSS.highlights.delete(MATCH_HIGHLIGHT);
+      CSS.highlights.delete(CURRENT_HIGHLIGHT);
+    };
+  }
+  const boxes = ranges.flatMap(range => Array.from(range.getClientRects()).map(rect => {
+    const box = document.createElement('div');
+    box.className = range === current ? 'checkra-replace-match-box current' : 'checkra-replace-match-box';
+    box.style.top = `${rect.top + window.scrollY}px`;
+    box.style.left = `${rect.left + window.scrollX}px`;
+    box.style.width = `${rect.width}px`;
+    box.style.height = `${rect.height}px`;
+    document.body.appendChild(box);
+    return box;
+  }));
+  return () => boxes.forEach(box => box.remove());
+}
+
+/**
+ * Panel card for `/replace`: highlights every match on the page, lists them with
+ * some context, and replaces them one at a time or all at once through `actions`.
+ * Matches are looked up again after every change, since replacing turns blocks
+ * into fixes and leaves the previous text nodes detached.
+ */
+export function createReplacePreview(
+  command: ReplaceCommand,
+  actions: {
+    findMatches: () => ReplaceMatch[];
+    replaceOne: (match: ReplaceMatch) => Promise<void>;
+    replaceAll: (matches: ReplaceMatch[]) => Promise<void>;
+    onError: (error: unknown) => void;
+    onClose: () => void;
+  }
+): ReplacePreview {
+  const { find, replacement } = command;
+  const card = document.createElement('div');
+  card.className = 'checkra-replace-card';
+
+  const title = document.createElement('div');
+  title.className = 'checkra-replace-title';
+  const list = document.createElement('ol');
+  list.className = 'checkra-replace-matches';
+  const controls = document.createElement('div');
+  controls.className = 'checkra-replace-controls';
+
+  let matches: ReplaceMatch[] = [];
+  let current: ReplaceMatch | null = null;
+  let clearHighlights: (() => void) | null = null;
+  let busy = false;
+  let closed = false;
+
+  const makeButton = (label: string, onClick: () => void | Promise<void>): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      if (busy || closed) return;
+      busy = true;
+      try {
+        await onClick();
+      } catch (error) {
+        actions.onError(error);
+      } finally {
+        busy = false;
+        if (!closed) render();
+      }
+    });
+    return button;
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearHighlights?.();
+    clearHighlights = null;
+    card.dataset.state = 'closed';
+    card.querySelectorAll('button').forEach(button => { button.disabled = true; });
+    actions.onClose();
+  };
+
+  const showMatch = (match: ReplaceMatch) => {
+    current = match;
+    match.node.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    highlight();
+  };
+
+  const highlight = () => {
+    clearHighlights?.();
+    const ranges = matches.map(match => matchRange(match, find));
+    clearHighlights = highlightRanges(ranges, current ? ranges[matches.indexOf(current)] ?? null : null);
+  };
+
+  const renderRow = (match: ReplaceMatch) => {
+    const { before, after } = matchContext(match, find);
+    const row = document.createElement('li');
+    const text = document.createElement('span');
+    text.className = 'checkra-replace-context';
+    text.title = 'Show on the page';
+    const mark = document.createElement('mark');
+    mark.textContent = find;
+    text.append(before, mark, after);
+    text.addEventListener('click', (e) => {
+      e.stopPropagation();
+      showMatch(match);
+    });
+    row.append(text, makeButton('Replace', () => actions.replaceOne(match)));
+    return row;
+  };
+
+  const render = () => {
+    matches = actions.findMatches();
+    // Keep the shown match selected if it is still on the page
+    const shown = current;
+    current = shown ? matches.find(match => match.node === shown.node && match.offset === shown.offset) ?? null : null;
+    const blocks = new Set(matches.map(match => match.block)).size;
+    title.textContent = matches.length === 0
+      ? `No matches left for “${find}”`
+      : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} for “${find}” in ${blocks} ${blocks === 1 ? 'block' : 'blocks'}, replacing with “${replacement}”`;
+
+    list.replaceChildren(...matches.slice(0, MAX_LISTED_MATCHES).map(renderRow));
+    if (matches.length > MAX_LISTED_MATCHES) {
+      const more = document.createElement('li');
+      more.className = 'checkra-replace-more';
+      more.textContent = `…and ${matches.length - MAX_LISTED_MATCHES} more`;
+      list.appendChild(more);
+    }
+
+    controls.replaceChildren(
+      makeButton(`Replace all (${matches.length})`, () => actions.replaceAll(matches)),
+      makeButton('Done', close)
+    );
+    if (matches.length === 0) {
+      close();
+      return;
+    }
+    highlight();
+  };
+
+  card.append(title, list, controls);
+  render();
+  return { element: card, close };
+}
@@ -1,4 +1,5 @@
 import html2canvas from 'html2canvas';
+import { CHECKRA_UI_SELECTOR } from '../utils/checkra-ui';
 
 const MIN_HEIGHT_FOR_INSERT_ZONES = 50; // Minimum element height in pixels for top/bottom 10% zones
 // Old constants below are no longer directly used by the new isLikelySection
@@ -84,6 +85,50 @@ function isLikelySection(el: HTMLElement | null, availableWidth: number): boolea
   return score >= 25;
 }
 
+// Never worth selecting, and invisible anyway
+const UNPICKABLE_TAGS = new Set(['script', 'style', 'template', 'noscript', 'link', 'meta', 'base']);
+const MAX_BREADCRUMB_DEPTH = 6;
+
+/** Elements the keyboard picker can land on: rendered page content below <body>, outside Checkra's UI. */
+function isPickable(el: Element | null): el is HTMLElement {
+  if (!(el instanceof HTMLElement) || el === document.body || el === document.documentElement) return false;
+  if (UNPICKABLE_TAGS.has(el.tagName.toLowerCase()) || el.closest(CHECKRA_UI_SELECTOR)) return false;
+  return el.getClientRects().length > 0;
+}
+
+function firstPickableChild(el: Element): HTMLElement | null {
+  return Array.from(el.children).find(isPickable) ?? null;
+}
+
+function pickableSibling(el: Element, direction: 'previous' | 'next'): HTMLElement | null {
+  let sibling = direction === 'next' ? el.nextElementSibling : el.previousElementSibling;
+  while (sibling && !isPickable(sibling)) {
+    sibling = direction === 'next' ? sibling.nextElementSibling : sibling.previousElementSibling;
+  }
+  return sibling;
+}
+
+function pickableParent(el: Element): HTMLElement | null {
+  let parent = el.parentElement;
+  while (parent && !isPickable(parent)) {
+    if (parent === document.body) return null;
+    parent = parent.parentElement;
+  }
+  return parent;
+}
+
+/** `tag#id` or `tag.firstClass`, for the breadcrumb. */
+function describeElement(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (el.id) return `${tag}#${el.id}`;
+  const className = Array.from(el.classList).find(cls => !cls.startsWith('checkra-'));
+  return className ? `${tag}.${className}` : tag;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
 /**
  * Handles capturing a selected DOM element.
  */
@@ -96,7 +141,8 @@ class ScreenCapture {
     clickX: number,
     clickY: number,
     effectiveBackgroundColor: string | null,
-    insertionMode: 'replace' | 'insertBefore' | 'insertAfter'
+    insertionMode: 'replace' | 'insertBefore' | 'insertAfter',
+    groupElements?: Element[]
   ) => void) | null = null;
   private clickListener: ((event: MouseEvent) => Promise<void>) | null = null;
   private escapeListener: ((event: KeyboardEvent) => void) | null = null;
@@ -109,6 +155,11 @@ class ScreenCapture {
   private ignoreElement: HTMLElement | null = null;
   private plusIconElement: HTMLDivElement | null = null;
   private currentInsertionMode: 'replace' | 'insertBefore' | 'insertAfter' = 'replace';
+  /** Elements collected with shift-click, in click order. */
+  private multiSelection: HTMLElement[] = [];
+  /** Element reached with the arrow keys; cleared once the mouse highlights something else. */
+  private keyboardTarget: HTMLElement | null = null;
+  private breadcrumbElement: HTMLDivElement | null = null;
 
   private cleanup(): void {
     document.body.classList.remove('capturing-mode');
@@ -154,11 +205,34 @@ class ScreenCapture {
       this.plusIconElement = null;
     }
 
+    this.multiSelection.forEach(el => el.classList.remove('checkra-multi-selected'));
+    this.multiSelection = [];
+    this.keyboardTarget = null;
+    this.breadcrumbElement?.remove();
+    this.breadcrumbElement = null;
+
     this.isCapturing = false;
     this.captureCallback = null;
     this.ignoreElement = null;
   }
 
+  /** Adds or removes an element from the shift-click selection. Nested picks replace their ancestor/descendant. */
+  private toggleMultiSelection(element: HTMLElement): void {
+    const index = this.multiSelection.indexOf(element);
+    if (index !== -1) {
+      this.multiSelection.splice(index, 1);
+      element.classList.remove('checkra-multi-selected');
+      return;
+    }
+    this.multiSelection = this.multiSelection.filter(selected => {
+      const overlaps = selected.contains(element) || element.contains(selected);
+      if (overlaps) selected.classList.remove('checkra-multi-selected');
+      return !overlaps;
+    });
+    this.multiSelection.push(element);
+    element.classList.add('checkra-multi-selected');
+  }
+
   private clearHighlightAndIcon(): void {
     if (this.currentHighlight) {
       this.currentHighlight.classList.remove('checkra-hover-top', 'checkra-hover-bottom', 'checkra-hover-middle', 'checkra-highlight-container');
@@ -226,13 +300,16 @@ class ScreenCapture {
     
     // Different element or no event, clear previous and highlight new
     this.clearHighlightAndIcon();
+    this.keyboardTarget = null;
 
     if (!element || !event) { 
       this.currentInsertionMode = 'replace'; 
+      this.updateBreadcrumb();
       return;
     }
 
     this.currentHighlight = element;
+    this.updateBreadcrumb();
     element.classList.add('checkra-highlight-container');
 
     const rect = element.getBoundingClientRect();
@@ -259,6 +336,70 @@ class ScreenCapture {
     }
   }
   
+  /** Highlights an element reached with the keyboard. Keyboard picks always replace. */
+  private highlightFromKeyboard(element: HTMLElement): void {
+    this.clearHighlightAndIcon();
+    this.currentHighlight = element;
+    this.keyboardTarget = element;
+    this.currentInsertionMode = 'replace';
+    element.classList.add('checkra-highlight-container', 'checkra-hover-middle');
+    element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    this.updateBreadcrumb();
+  }
+
+  /** Arrow keys walk the DOM from the highlighted element: up to the parent, down to the first child, left/right between siblings. */
+  private navigateWithKeyboard(key: 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight'): void {
+    const current = this.currentHighlight;
+    if (!current) {
+      // Start from whatever is in the middle of the viewport
+      const atCenter = document.elementFromPoint(window.innerWidth / 2, window.innerHeight / 2);
+      const start = isPickable(atCenter) ? atCenter : firstPickableChild(document.body);
+      if (start) this.highlightFromKeyboard(start);
+      return;
+    }
+    const next = key === 'ArrowUp' ? pickableParent(current)
+      : key === 'ArrowDown' ? firstPickableChild(current)
+      : pickableSibling(current, key === 'ArrowLeft' ? 'previous' : 'next');
+    if (next) this.highlightFromKeyboard(next);
+  }
+
+  /** Shows the highlighted element's ancestry; clicking a crumb highlights that ancestor. */
+  private updateBreadcrumb(): void {
+    const element = this.currentHighlight;
+    if (!element) {
+      this.breadcrumbElement?.remove();
+      this.breadcrumbElement = null;
+      return;
+    }
+    if (!this.breadcrumbElement) {
+      this.breadcrumbElement = document.createElement('div');
+      this.breadcrumbElement.className = 'checkra-picker-breadcrumb';
+      document.body.appendChild(this.breadcrumbElement);
+    }
+
+    const ancestry: HTMLElement[] = [];
+    for (let el: HTMLElement | null = element; el && el !== document.body; el = el.parentElement) {
+      ancestry.unshift(el);
+    }
+    const trail = this.breadcrumbElement;
+    trail.replaceChildren();
+    if (ancestry.length > MAX_BREADCRUMB_DEPTH) {
+      trail.append('… › ');
+    }
+    ancestry.slice(-MAX_BREADCRUMB_DEPTH).forEach((el, i, shown) => {
+      const crumb = document.createElement('span');
+      crumb.className = el === element ? 'checkra-picker-crumb current' : 'checkra-picker-crumb';
+      crumb.textContent = describeElement(el);
+      crumb.addEventListener('click', () => { if (isPickable(el)) this.highlightFromKeyboard(el); });
+      trail.append(crumb);
+      if (i < shown.length - 1) trail.append(' › ');
+    });
+    const hint = document.createElement('span');
+    hint.className = 'checkra-picker-hint';
+    hint.textContent = '↑ parent · ↓ child · ←/→ siblings · Enter select · Esc cancel';
+    trail.append(hint);
+  }
+
   private createPlusIcon(position: 'top' | 'bottom', parentElement: HTMLElement): void {
     if (!this.plusIconElement) {
       this.plusIconElement = document.createElement('div');
@@ -317,6 +458,99 @@ class ScreenCapture {
     return defaultBackgroundColor;
   }
 
+  /** Finishes a capture on `highlighted` (plus any shift-click selection) and runs the callback. */
+  private async completeCapture(highlighted: HTMLElement | null, clickX: number, clickY: number): Promise<void> {
+    // With a shift-click selection, a click on nothing finishes with the last picked element
+    const selectedElement = highlighted ?? this.multiSelection[this.multiSelection.length - 1] ?? null;
+    if (selectedElement && this.multiSelection.length > 0 && !this.multiSelection.includes(selectedElement)) {
+      this.toggleMultiSelection(selectedElement);
+    }
+    const groupElements: Element[] = this.multiSelection.length > 1 ? this.multiSelection.slice() : [];
+
+    // --- Get effective background color BEFORE removing highlight ---
+    let effectiveBackgroundColor: string | null = null;
+    if (selectedElement) {
+      effectiveBackgroundColor = this.getEffectiveBackgroundColor(selectedElement);
+    }
+    // --- End get background color ---
+
+    // --- Explicitly restore styles BEFORE cleanup and outerHTML ---
+    if (selectedElement) {
+      // No longer removing outline/position/zIndex here, clearHighlightAndIcon handles class removal
+      // selectedElement.style.removeProperty('outline');
+      // ... (keep removal of explicit styles if any were set, but rely on class removal mainly)
+    } else {
+      // console.warn('[ScreenCapture] No element was selected/highlighted at click time.');
+    }
+    // --- End explicit restoration ---
+
+    // Store callback before cleanup
+    const callbackToExecute = this.captureCallback;
+    
+    // Cleanup now removes highlight and icon
+    this.cleanup(); 
+
+    // Check if callback is still valid
+    if (!callbackToExecute) {
+      console.warn('[ScreenCapture] Callback became null after cleanup, aborting.');
+      return;
+    }
+
+    let imageDataUrl: string | null = null;
+    let selectedHtml: string | null = null;
+    let selectedElementBounds: DOMRect | null = null;
+
+    if (selectedElement) {
+      selectedElementBounds = selectedElement.getBoundingClientRect(); // Get bounds
+
+      // 1. Get HTML (Styles should definitely be removed now)
+      try {
+        selectedHtml = selectedElement.outerHTML;
+      } catch (e) {
+        console.error('[ScreenCapture] Error getting outerHTML:', e);
+        selectedHtml = null;
+      }
+
+      // 2. Capture Image using html2canvas
+      try {
+        const effectiveBackgroundColor = this.getEffectiveBackgroundColor(selectedElement);
+        // html2canvas uses a clone, so the original element's state (styles removed) is fine.
+        // The onclone callback is still good practice for the image generation itself.
+        const canvas = await html2canvas(selectedElement, {
+          backgroundColor: effectiveBackgroundColor,
+          useCORS: true,
+          logging: false,
+          onclone: (_clonedDoc, clonedElement) => {
+            if (clonedElement) {
+              // Ensure clone definitely doesn't have styles for screenshot
+              clonedElement.style.removeProperty('outline');
+              clonedElement.style.removeProperty('position');
+              clonedElement.style.removeProperty('z-index');
+            }
+          }
+        });
+        imageDataUrl = canvas.toDataURL('image/jpeg', 0.9);
+      } catch (error) {
+        console.error('[ScreenCapture] html2canvas capture failed:', error);
+        imageDataUrl = null;
+      }
+    } else {
+    }
+
+    // Execute callback with results (including bounds, element, coordinates, and background color)
+    try {
+      // Pass all 9 arguments now
+      callbackToExecute(imageDataUrl, selectedHtml, selectedElementBounds, selectedElement, clickX, clickY, effectiveBackgroundColor, this.currentInsertionMode, groupElements);
+    } catch (callbackError) {
+      console.error('[ScreenCapture] Error executing the capture callback:', callbackError);
+      // Pass all 8 arguments now
+      callbackToExecute(null, null, null, null, 0, 0, null, 'replace'); // Default to replace on error
+    }
+
+    // Call cleanup AFTER restoring styles
+    this.cleanup();
+  }
+
   public startCapture(callback: (
     imageDataUrl: string | null,
     selectedHtml: string | null,
@@ -325,7 +559,8 @@ class ScreenCapture {
     clickX: number,
     clickY: number,
     effectiveBackgroundColor: string | null,
-    insertionMode: 'replace' | 'insertBefore' | 'insertAfter'
+    insertionMode: 'replace' | 'insertBefore' | 'insertAfter',
+    groupElements?: Element[]
   ) => void,
   elementToIgnore?: HTMLElement): void {
     if (this.isCapturing) {
@@ -340,10 +575,26 @@ class ScreenCapture {
 
     try {
 
-      // Set up escape key handler
+      // Set up keyboard handler: Escape cancels, arrows navigate the DOM, Enter selects
       this.escapeListener = (event: KeyboardEvent) => {
         if (event.key === 'Escape') {
           this.cancelCapture();
+          return;
+        }
+        if (isEditableTarget(event.target)) return;
+        if (event.key === 'ArrowUp' || event.key === 'ArrowDown' || event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+          event.preventDefault();
+          this.navigateWithKeyboard(event.key);
+        } else if (event.key === 'Enter' && event.shiftKey && this.keyboardTarget) {
+          // Keyboard equivalent of shift-click
+          event.preventDefault();
+          this.toggleMultiSelection(this.keyboardTarget);
+        } else if (event.key === 'Enter' && (this.keyboardTarget || this.multiSelection.length > 0)) {
+          // Select the keyboard target, or finish a shift-click selection without another click
+          event.preventDefault();
+          const target = this.keyboardTarget ?? this.multiSelection[this.multiSelection.length - 1];
+          const rect = target.getBoundingClientRect();
+          void this.completeCapture(target, rect.left + rect.width / 2, rect.top + rect.height / 2);
         }
       };
       document.addEventListener('keydown', this.escapeListener);
@@ -351,6 +602,7 @@ class ScreenCapture {
       // Set up mousemove handler to highlight elements under cursor
       this.mouseMoveListener = (event: MouseEvent) => {
         const elementAtPoint = document.elementFromPoint(event.clientX, event.clientY) as HTMLElement | null;
+        if (elementAtPoint && this.breadcrumbElement?.contains(elementAtPoint)) return;
         if (this.ignoreElement && elementAtPoint && this.ignoreElement.contains(elementAtPoint)) {
           if (this.currentHighlight && !this.ignoreElement.contains(this.currentHighlight)) {
             this.clearHighlightAndIcon(); 
@@ -370,98 +622,22 @@ class ScreenCapture {
         if (this.ignoreElement && this.ignoreElement.contains(clickedElement)) {
           return; 
         }
+        // Let the click reach the crumb's own listener instead of finishing the capture
+        if (this.breadcrumbElement?.contains(clickedElement)) {
+          return;
+        }
 
         // Prevent default browser action and stop event bubbling *now* for non-ignored elements
         event.preventDefault();
         event.stopPropagation();
 
-        // Capture coordinates and the highlighted element
-        const clickX = event.clientX;
-        const clickY = event.clientY;
-        const selectedElement = this.currentHighlight; // Use the highlighted element
-
-        // --- Get effective background color BEFORE removing highlight ---
-        let effectiveBackgroundColor: string | null = null;
-        if (selectedElement) {
-          effectiveBackgroundColor = this.getEffectiveBackgroundColor(selectedElement);
-        }
-        // --- End get background color ---
-
-        // --- Explicitly restore styles BEFORE cleanup and outerHTML ---
-        if (selectedElement) {
-          // No longer removing outline/position/zIndex here, clearHighlightAndIcon handles class removal
-          // selectedElement.style.removeProperty('outline');
-          // ... (keep removal of explicit styles if any were set, but rely on class removal mainly)
-        } else {
-          // console.warn('[ScreenCapture] No element was selected/highlighted at click time.');
-        }
-        // --- End explicit restoration ---
-
-        // Store callback before cleanup
-        const callbackToExecute = this.captureCallback;
-        
-        // Cleanup now removes highlight and icon
-        this.cleanup(); 
-
-        // Check if callback is still valid
-        if (!callbackToExecute) {
-          console.warn('[ScreenCapture] Callback became null after cleanup, aborting.');
+        // Shift-click collects several elements for one prompt; a plain click (or Enter) finishes
+        if (event.shiftKey && this.currentHighlight) {
+          this.toggleMultiSelection(this.currentHighlight);
           return;
         }
 
-        let imageDataUrl: string | null = null;
-        let selectedHtml: string | null = null;
-        let selectedElementBounds: DOMRect | null = null;
-
-        if (selectedElement) {
-          selectedElementBounds = selectedElement.getBoundingClientRect(); // Get bounds
-
-          // 1. Get HTML (Styles should definitely be removed now)
-          try {
-            selectedHtml = selectedElement.outerHTML;
-          } catch (e) {
-            console.error('[ScreenCapture] Error getting outerHTML:', e);
-            selectedHtml = null;
-          }
-
-          // 2. Capture Image using html2canvas
-          try {
-            const effectiveBackgroundColor = this.getEffectiveBackgroundColor(selectedElement);
-            // html2canvas uses a clone, so the original element's state (styles removed) is fine.
-            // The onclone callback is still good practice for the image generation itself.
-            const canvas = await html2canvas(selectedElement, {
-              backgroundColor: effectiveBackgroundColor,
-              useCORS: true,
-              logging: false,
-              onclone: (_clonedDoc, clonedElement) => {
-                if (clonedElement) {
-                  // Ensure clone definitely doesn't have styles for screenshot
-                  clonedElement.style.removeProperty('outline');
-                  clonedElement.style.removeProperty('position');
-                  clonedElement.style.removeProperty('z-index');
-                }
-              }
-            });
-            imageDataUrl = canvas.toDataURL('image/jpeg', 0.9);
-          } catch (error) {
-            console.error('[ScreenCapture] html2canvas capture failed:', error);
-            imageDataUrl = null;
-          }
-        } else {
-        }
-
-        // Execute callback with results (including bounds, element, coordinates, and background color)
-        try {
-          // Pass all 8 arguments now
-          callbackToExecute(imageDataUrl, selectedHtml, selectedElementBounds, selectedElement, clickX, clickY, effectiveBackgroundColor, this.currentInsertionMode);
-        } catch (callbackError) {
-          console.error('[ScreenCapture] Error executing the capture callback:', callbackError);
-          // Pass all 8 arguments now
-          callbackToExecute(null, null, null, null, 0, 0, null, 'replace'); // Default to replace on error
-        }
-
-        // Call cleanup AFTER restoring styles
-        this.cleanup();
+        await this.completeCapture(this.currentHighlight, event.clientX, event.clientY);
       };
 
       // Add the click listener with capture: true
@@ -588,6 +764,50 @@ if (!document.getElementById('screen-capture-styles')) {
     .checkra-selected-replace {
       outline: 2px solid #0095ff !important; /* Consistent with middle hover */
     }
+
+    /* Ancestry of the highlighted element, for keyboard picking */
+    .checkra-picker-breadcrumb {
+      position: fixed !important;
+      left: 12px !important;
+      bottom: 12px !important;
+      max-width: calc(100vw - 24px) !important;
+      padding: 6px 10px !important;
+      background: rgba(20, 20, 20, 0.92) !important;
+      color: #ccc !important;
+      font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace !important;
+      border-radius: 6px !important;
+      z-index: 2147483647 !important;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.4) !important;
+    }
+
+    body.capturing-mode .checkra-picker-breadcrumb,
+    body.capturing-mode .checkra-picker-hint {
+      cursor: default !important;
+    }
+
+    body.capturing-mode .checkra-picker-crumb {
+      cursor: pointer !important;
+    }
+
+    .checkra-picker-crumb:hover {
+      text-decoration: underline !important;
+    }
+
+    .checkra-picker-crumb.current {
+      color: #4da3ff !important;
+      font-weight: bold !important;
+    }
+
+    .checkra-picker-hint {
+      margin-left: 12px !important;
+      color: #888 !important;
+    }
+
+    /* Shift-click (multi-element) selection */
+    .checkra-multi-selected {
+      outline: 2px dashed #0095ff !important;
+      outline-offset: 2px !important;
+    }
   `;
   document.head.appendChild(style);
 }
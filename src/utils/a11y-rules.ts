@@ -0,0 +1,235 @@
+/**
+ * Local accessibility checks.
+ *
+ * Runs entirely in the page (no network) over a section or the whole document,
+ * and reports the handful of issues that most often block real users: low text
+ * contrast, images without alt text, skipped heading levels, unlabeled form
+ * controls, tiny tap targets and buttons without a name. It is a quick pass to
+ * sit next to the AI scorecard, not a replacement for a full WCAG audit.
+ */
+import { bubbleComputedColors, contrastRatio } from './design-tokens';
+import { CHECKRA_UI_SELECTOR } from './checkra-ui';
+
+export type A11yRuleId = 'color-contrast' | 'image-alt' | 'heading-order' | 'form-label' | 'tap-target' | 'button-name';
+export type A11ySeverity = 'serious' | 'moderate' | 'minor';
+
+export interface A11yFinding {
+  rule: A11yRuleId;
+  severity: A11ySeverity;
+  message: string;
+  /** Short human-readable description of the element, e.g. `button.cta "Sign up"`. */
+  target: string;
+  element: Element;
+}
+
+export const A11Y_RULE_LABELS: Record<A11yRuleId, string> = {
+  'color-contrast': 'Text contrast',
+  'image-alt': 'Image alt text',
+  'heading-order': 'Heading order',
+  'form-label': 'Form labels',
+  'tap-target': 'Tap target size',
+  'button-name': 'Button names',
+};
+
+/** Per rule; a page with hundreds of identical issues doesn't need them all listed. */
+const MAX_FINDINGS_PER_RULE = 15;
+/** WCAG 2.2 target size minimum (2.5.8, AA). */
+const MIN_TAP_TARGET_PX = 24;
+const FORM_CONTROL_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+const BUTTON_SELECTOR = 'button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]';
+const TAP_TARGET_SELECTOR = 'a[href], button, [role="button"], input[type="submit"], input[type="button"], input[type="checkbox"], input[type="radio"], select';
+
+function isVisible(el: Element): boolean {
+  if (el.closest(CHECKRA_UI_SELECTOR)) return false;
+  if (el.getClientRects().length === 0) return false;
+  const style = getComputedStyle(el);
+  return style.visibility !== 'hidden' && style.opacity !== '0';
+}
+
+function collapse(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function describeElement(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  const id = el.id ? `#${el.id}` : '';
+  const firstClass = typeof el.className === 'string' ? el.className.trim().split(/\s+/)[0] : '';
+  const text = collapse(el.textContent);
+  const label = text ? ` "${text.length > 40 ? `${text.slice(0, 39)}…` : text}"` : '';
+  return `${tag}${id}${!id && firstClass && !firstClass.startsWith('checkra-') ? `.${firstClass}` : ''}${label}`;
+}
+
+/** Elements matching `selector` inside `root`, including `root` itself. */
+function within(root: Element, selector: string): Element[] {
+  const matches = Array.from(root.querySelectorAll(selector));
+  return root.matches(selector) ? [root, ...matches] : matches;
+}
+
+function referencedText(el: Element, attribute: string): string {
+  return (el.getAttribute(attribute) || '')
+    .split(/\s+/)
+    .map(id => (id ? collapse(document.getElementById(id)?.textContent) : ''))
+    .join(' ')
+    .trim();
+}
+
+function accessibleName(el: Element): string {
+  const aria = collapse(el.getAttribute('aria-label')) || referencedText(el, 'aria-labelledby');
+  if (aria) return aria;
+  if (el instanceof HTMLInputElement && ['submit', 'button', 'reset'].includes(el.type)) {
+    return collapse(el.value) || (el.type === 'submit' || el.type === 'reset' ? el.type : '');
+  }
+  const text = collapse(el.textContent);
+  if (text) return text;
+  const imgAlt = Array.from(el.querySelectorAll('img[alt], svg[aria-label]'))
+    .map(img => collapse(img.getAttribute('alt') || img.getAttribute('aria-label')))
+    .join(' ')
+    .trim();
+  return imgAlt || collapse(el.getAttribute('title'));
+}
+
+function hasDirectText(el: Element): boolean {
+  return Array.from(el.childNodes).some(node => node.nodeType === Node.TEXT_NODE && collapse(node.textContent).length > 0);
+}
+
+function checkContrast(root: Element): Omit<A11yFinding, 'rule'>[] {
+  const findings: Omit<A11yFinding, 'rule'>[] = [];
+  for (const el of within(root, '*')) {
+    if (!(el instanceof HTMLElement) || !hasDirectText(el) || !isVisible(el)) continue;
+    const style = getComputedStyle(el);
+    // Nearest painted background; assume white when nothing on the way up has one
+    const background = bubbleComputedColors(el)?.accent ?? 'rgb(255, 255, 255)';
+    const ratio = contrastRatio(style.color, background);
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+    const required = isLarge ? 3 : 4.5;
+    if (ratio < required) {
+      findings.push({
+        severity: ratio < required - 1.5 ? 'serious' : 'moderate',
+        message: `Contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${style.color} on ${background}).`,
+        target: describeElement(el),
+        element: el,
+      });
+    }
+  }
+  return findings;
+}
+
+function checkImageAlt(root: Element): Omit<A11yFinding, 'rule'>[] {
+  return within(root, 'img, input[type="image"], [role="img"]')
+    .filter(el => isVisible(el))
+    .filter(el => {
+      if (el.getAttribute('aria-hidden') === 'true') return false;
+      if (el.tagName === 'IMG' || el.tagName === 'INPUT') return !el.hasAttribute('alt') && !el.getAttribute('aria-label') && !el.getAttribute('aria-labelledby');
+      return !accessibleName(el);
+    })
+    .map(el => ({
+      severity: 'serious' as const,
+      message: 'Image has no alt text. Use alt="" if it is decorative.',
+      target: el.getAttribute('src') ? `${el.tagName.toLowerCase()} src="${el.getAttribute('src')!.slice(-60)}"` : describeElement(el),
+      element: el,
+    }));
+}
+
+function checkHeadingOrder(root: Element): Omit<A11yFinding, 'rule'>[] {
+  const findings: Omit<A11yFinding, 'rule'>[] = [];
+  const headings = within(root, 'h1, h2, h3, h4, h5, h6').filter(isVisible);
+  if (root === document.body && !headings.some(h => h.tagName === 'H1')) {
+    findings.push({ severity: 'moderate', message: 'The page has no <h1>.', target: 'body', element: root });
+  }
+  let previousLevel = 0;
+  headings.forEach(heading => {
+    const level = Number(heading.tagName[1]);
+    if (previousLevel && level > previousLevel + 1) {
+      findings.push({
+        severity: 'moderate',
+        message: `Heading level jumps from h${previousLevel} to h${level}.`,
+        target: describeElement(heading),
+        element: heading,
+      });
+    }
+    previousLevel = level;
+  });
+  return findings;
+}
+
+function checkFormLabels(root: Element): Omit<A11yFinding, 'rule'>[] {
+  return within(root, FORM_CONTROL_SELECTOR)
+    .filter(isVisible)
+    .filter(el => {
+      if (collapse(el.getAttribute('aria-label')) || referencedText(el, 'aria-labelledby') || collapse(el.getAttribute('title'))) return false;
+      if (el.closest('label') && collapse(el.closest('label')!.textContent)) return false;
+      return !(el.id && document.querySelector(`label[for="${CSS.escape(el.id)}"]`));
+    })
+    .map(el => ({
+      severity: 'serious' as const,
+      message: el.getAttribute('placeholder')
+        ? 'Form control is only labelled by its placeholder, which disappears while typing.'
+        : 'Form control has no label.',
+      target: `${el.tagName.toLowerCase()}${el.getAttribute('name') ? `[name="${el.getAttribute('name')}"]` : ''}`,
+      element: el,
+    }));
+}
+
+function checkTapTargets(root: Element): Omit<A11yFinding, 'rule'>[] {
+  return within(root, TAP_TARGET_SELECTOR)
+    .filter(isVisible)
+    .filter(el => {
+      const rect = el.getBoundingClientRect();
+      if (rect.width >= MIN_TAP_TARGET_PX && rect.height >= MIN_TAP_TARGET_PX) return false;
+      // Links inside running text are exempt from the size rule
+      if (el.tagName === 'A' && getComputedStyle(el).display === 'inline') {
+        const parentText = collapse(el.parentElement?.textContent);
+        if (parentText.length > collapse(el.textContent).length + 20) return false;
+      }
+      return true;
+    })
+    .map(el => {
+      const rect = el.getBoundingClientRect();
+      return {
+        severity: 'minor' as const,
+        message: `Tap target is ${Math.round(rect.width)}×${Math.round(rect.height)}px; aim for at least ${MIN_TAP_TARGET_PX}×${MIN_TAP_TARGET_PX}px.`,
+        target: describeElement(el),
+        element: el,
+      };
+    });
+}
+
+function checkButtonNames(root: Element): Omit<A11yFinding, 'rule'>[] {
+  return within(root, BUTTON_SELECTOR)
+    .filter(isVisible)
+    .filter(el => !accessibleName(el))
+    .map(el => ({
+      severity: 'serious' as const,
+      message: 'Button has no accessible name. Add text or an aria-label.',
+      target: describeElement(el),
+      element: el,
+    }));
+}
+
+const RULES: Array<{ rule: A11yRuleId; check: (root: Element) => Omit<A11yFinding, 'rule'>[] }> = [
+  { rule: 'color-contrast', check: checkContrast },
+  { rule: 'image-alt', check: checkImageAlt },
+  { rule: 'heading-order', check: checkHeadingOrder },
+  { rule: 'form-label', check: checkFormLabels },
+  { rule: 'tap-target', check: checkTapTargets },
+  { rule: 'button-name', check: checkButtonNames },
+];
+
+/** Runs every rule over `root` (the whole page by default). */
+export function runAccessibilityChecks(root: Element = document.body): A11yFinding[] {
+  return RULES.flatMap(({ rule, check }) => check(root).slice(0, MAX_FINDINGS_PER_RULE).map(finding => ({ rule, ...finding })));
+}
+
+/** Bullet list of findings for chat messages and prompts. */
+export function formatA11yFindings(findings: A11yFinding[]): string {
+  return findings
+    .map(f => `- [${f.severity}] ${A11Y_RULE_LABELS[f.rule]}: ${f.message} (${f.target})`)
+    .join('\n');
+}
+
+/** Context block appended to a prompt so the AI fixes the issues found locally. */
+export function formatA11yFindingsForPrompt(findings: A11yFinding[]): string {
+  if (findings.length === 0) return '';
+  return `Accessibility issues found in this element by automated checks (fix these too, without changing the design more than needed):\n${formatA11yFindings(findings)}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Checkra's own elements on the page: the panel plus the controls, overlays and
+ * highlights it adds around applied fixes. Page scans (a11y checks, find & replace,
+ * report screenshots, the keyboard picker) skip anything inside these.
+ */
+export const CHECKRA_UI_SELECTOR = [
+  '#checkra-feedback-viewer',
+  '.checkra-fix-controls-container',
+  '.feedback-fix-info-overlay',
+  '.checkra-fix-diff-panel',
+  '.checkra-fix-compare-handle',
+  '.checkra-inline-edit-toolbar',
+  '.feedback-fix-rating-options',
+  '.checkra-insert-indicator',
+  '.checkra-picker-breadcrumb',
+  '.checkra-replace-match-box',
+].join(', ');
@@ -0,0 +1,167 @@
+/**
+ * Offline readability and copy metrics.
+ *
+ * Gives copy changes an objective measure that doesn't depend on the model:
+ * Flesch-Kincaid grade, sentence length, passive voice, jargon and filler words,
+ * and how strongly the calls to action open. English-only heuristics; good
+ * enough to compare two versions of the same section, not to grade prose.
+ */
+
+export interface CopyMetrics {
+  words: number;
+  sentences: number;
+  avgSentenceLength: number;
+  /** Flesch-Kincaid grade level (US school grade). Lower reads easier. */
+  fleschKincaidGrade: number;
+  /** Share of sentences (0..1) that look passive. */
+  passiveVoiceRatio: number;
+  jargonCount: number;
+  jargonTerms: string[];
+  fillerCount: number;
+  fillerWords: string[];
+  /** 0..100 averaged over the CTAs found, or null when there are none. */
+  ctaStrength: number | null;
+  ctaTexts: string[];
+}
+
+export interface CopyMetricInfo {
+  key: 'fleschKincaidGrade' | 'avgSentenceLength' | 'passiveVoiceRatio' | 'jargonCount' | 'fillerCount' | 'ctaStrength';
+  label: string;
+  higherIsBetter: boolean;
+  format: (value: number) => string;
+}
+
+export const COPY_METRICS: CopyMetricInfo[] = [
+  { key: 'fleschKincaidGrade', label: 'Reading grade', higherIsBetter: false, format: v => v.toFixed(1) },
+  { key: 'avgSentenceLength', label: 'Words per sentence', higherIsBetter: false, format: v => v.toFixed(1) },
+  { key: 'passiveVoiceRatio', label: 'Passive voice', higherIsBetter: false, format: v => `${Math.round(v * 100)}%` },
+  { key: 'jargonCount', label: 'Jargon', higherIsBetter: false, format: v => String(v) },
+  { key: 'fillerCount', label: 'Filler words', higherIsBetter: false, format: v => String(v) },
+  { key: 'ctaStrength', label: 'CTA strength', higherIsBetter: true, format: v => `${Math.round(v)}/100` },
+];
+
+const CTA_SELECTOR = 'a[href], button, input[type="submit"], input[type="button"], [role="button"]';
+
+const JARGON = [
+  'synergy', 'synergies', 'leverage', 'leveraging', 'best-in-class', 'world-class', 'cutting-edge', 'next-gen', 'next-generation',
+  'paradigm', 'holistic', 'robust', 'seamless', 'seamlessly', 'scalable', 'end-to-end', 'turnkey', 'mission-critical',
+  'disruptive', 'innovative', 'empower', 'empowering', 'streamline', 'utilize', 'utilization', 'optimize', 'ecosystem',
+  'bleeding-edge', 'value-add', 'actionable', 'omnichannel', 'frictionless', 'game-changing', 'revolutionary', 'state-of-the-art',
+];
+
+const FILLER = [
+  'very', 'really', 'just', 'actually', 'basically', 'simply', 'quite', 'totally', 'literally', 'extremely',
+  'truly', 'definitely', 'certainly', 'probably', 'somewhat', 'rather', 'highly', 'incredibly',
+];
+
+/** Verbs that tell the visitor exactly what they get by clicking. */
+const STRONG_CTA_VERBS = [
+  'get', 'start', 'try', 'join', 'book', 'download', 'claim', 'create', 'build', 'save', 'buy', 'shop', 'order',
+  'reserve', 'schedule', 'discover', 'unlock', 'grab', 'launch', 'upgrade', 'request', 'explore', 'subscribe', 'register',
+];
+/** Vague or mechanical openers. */
+const WEAK_CTA_VERBS = ['submit', 'click', 'go', 'continue', 'next', 'more', 'here', 'ok', 'send', 'enter', 'learn', 'read', 'see', 'view'];
+
+const PASSIVE_REGEX = /\b(am|is|are|was|were|be|been|being)\s+(\w+ly\s+)?(\w+ed|born|built|done|given|known|made|seen|shown|sent|taken|written|found|kept|held|paid|sold|told)\b/i;
+
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/([.!?])\s+/g, '$1\n')
+    .split(/\n+/)
+    .map(s => s.trim())
+    .filter(s => /[a-z]/i.test(s));
+}
+
+function matchTerms(words: string[], terms: string[]): string[] {
+  const found = words.filter(w => terms.includes(w));
+  return Array.from(new Set(found));
+}
+
+/** Scores one CTA label (0..100) by its opening verb, specificity and length. */
+export function scoreCtaText(text: string): number {
+  const words = text.toLowerCase().replace(/[^a-z0-9\s'-]/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 0;
+  let score = STRONG_CTA_VERBS.includes(words[0]) ? 70 : WEAK_CTA_VERBS.includes(words[0]) ? 25 : 45;
+  // Say what they get: "Start my free trial" beats "Start"
+  if (words.length >= 2 && words.length <= 6) score += 15;
+  if (words.some(w => ['free', 'now', 'today', 'instantly', 'my', 'your'].includes(w) || /\d/.test(w))) score += 15;
+  if (words.length > 8) score -= 20;
+  return Math.max(0, Math.min(100, score));
+}
+
+/** Computes metrics for plain text, with optional CTA labels scored separately. */
+export function analyzeCopy(text: string, ctaTexts: string[] = []): CopyMetrics {
+  const sentences = splitSentences(text);
+  const words = text.toLowerCase().match(/[a-z][a-z'-]*/g) ?? [];
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const sentenceCount = Math.max(1, sentences.length);
+  const avgSentenceLength = words.length / sentenceCount;
+  const grade = words.length === 0 ? 0 : 0.39 * avgSentenceLength + 11.8 * (syllables / words.length) - 15.59;
+  const passive = sentences.filter(s => PASSIVE_REGEX.test(s)).length;
+  const jargon = words.filter(w => JARGON.includes(w));
+  const filler = words.filter(w => FILLER.includes(w));
+  const ctas = ctaTexts.map(t => t.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    avgSentenceLength: Math.round(avgSentenceLength * 10) / 10,
+    fleschKincaidGrade: Math.round(Math.max(0, grade) * 10) / 10,
+    passiveVoiceRatio: sentences.length ? passive / sentences.length : 0,
+    jargonCount: jargon.length,
+    jargonTerms: matchTerms(words, JARGON),
+    fillerCount: filler.length,
+    fillerWords: matchTerms(words, FILLER),
+    ctaStrength: ctas.length ? ctas.reduce((sum, t) => sum + scoreCtaText(t), 0) / ctas.length : null,
+    ctaTexts: ctas,
+  };
+}
+
+/** Metrics for an element's visible copy; links and buttons are scored as CTAs. */
+export function analyzeElementCopy(root: Element): CopyMetrics {
+  const ctaTexts = Array.from(root.querySelectorAll(CTA_SELECTOR))
+    .map(el => (el instanceof HTMLInputElement ? el.value : el.textContent || ''));
+  const text = root instanceof HTMLElement && root.isConnected ? root.innerText : root.textContent || '';
+  return analyzeCopy(text, ctaTexts);
+}
+
+/** Metrics for an HTML string, e.g. the before/after HTML of a fix. */
+export function analyzeHtmlCopy(html: string): CopyMetrics {
+  const template = document.createElement('template');
+  template.innerHTML = html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '');
+  // Block-level boundaries become line breaks so headings don't run into the next sentence
+  template.content.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, div, section, br, button').forEach(el => el.after('\n'));
+  const container = document.createElement('div');
+  container.appendChild(template.content);
+  return analyzeElementCopy(container);
+}
+
+/**
+ * Markdown table of metrics, with a before column when `before` is given.
+ * Changed values are marked ▲/▼ by whether they got better or worse.
+ */
+export function formatCopyMetricsTable(after: CopyMetrics, before?: CopyMetrics): string {
+  const rows = COPY_METRICS.map(({ key, label, higherIsBetter, format }) => {
+    const now = after[key];
+    const nowText = now === null ? '–' : format(now);
+    if (!before) return `| ${label} | ${nowText} |`;
+    const then = before[key];
+    const thenText = then === null ? '–' : format(then);
+    let trend = '';
+    if (now !== null && then !== null && thenText !== nowText) {
+      trend = (now > then) === higherIsBetter ? ' ▲' : ' ▼';
+    }
+    return `| ${label} | ${thenText} | ${nowText}${trend} |`;
+  });
+  const header = before ? '| Metric | Before | After |\n|---|---:|---:|' : '| Metric | Value |\n|---|---:|';
+  return `${header}\n${rows.join('\n')}`;
+}
@@ -0,0 +1,22 @@
+/** Saves text as a file through a temporary object URL and anchor. */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Filename-safe hostname of a URL, or 'page' when it can't be parsed. */
+export function fileNameHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/[^a-z0-9.-]/gi, '-') || 'page';
+  } catch {
+    return 'page';
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Content fingerprints for published changes.
+ *
+ * A CSS selector breaks as soon as a deploy shifts the markup (a new wrapper div,
+ * a reordered sibling). The fingerprint records what the target *was* — its text,
+ * where it sat in the tree and what was around it — so the bootloader can find it
+ * again when the selector no longer matches, and say how sure it is.
+ */
+
+import { CHECKRA_UI_SELECTOR } from './checkra-ui';
+
+export interface ElementFingerprint {
+  tagName: string;
+  /** FNV-1a hash of the normalized text content. */
+  textHash: string;
+  /** Start of the normalized text, used for fuzzy comparison when the hash differs. */
+  textSample: string;
+  /** Tag names from <body> down to the element, e.g. ['main', 'section', 'div']. */
+  tagPath: string[];
+  landmarks: {
+    /** Nearest heading inside or before the element. */
+    heading?: string;
+    /** Closest landmark ancestor, e.g. 'main', 'section#pricing', '[role=banner]'. */
+    region?: string;
+    prevText?: string;
+    nextText?: string;
+  };
+}
+
+export interface FingerprintMatch {
+  element: Element | null;
+  /** 0..1; 1 means the selector hit an element whose text is unchanged. */
+  confidence: number;
+  strategy: 'selector' | 'fingerprint' | 'none';
+}
+
+const TEXT_SAMPLE_LENGTH = 200;
+const NEIGHBOUR_TEXT_LENGTH = 60;
+/** Below this score a fuzzy candidate is not trusted. */
+export const MIN_MATCH_CONFIDENCE = 0.6;
+const MAX_CANDIDATES = 2000;
+const LANDMARK_SELECTOR = 'header, nav, main, footer, aside, section[id], article[id], [role]';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function describeRegion(el: Element): string {
+  const role = el.getAttribute('role');
+  if (role) return `[role=${role}]`;
+  return el.id ? `${el.tagName.toLowerCase()}#${el.id}` : el.tagName.toLowerCase();
+}
+
+/** The page's headings in document order with their normalized text, read once per lookup. */
+interface PageHeading {
+  element: Element;
+  text: string | undefined;
+}
+
+function collectHeadings(): PageHeading[] {
+  return Array.from(document.querySelectorAll(HEADING_SELECTOR))
+    .map(element => ({ element, text: normalizeText(element.textContent) || undefined }));
+}
+
+function precedingHeading(el: Element, headings: PageHeading[]): string | undefined {
+  for (let i = headings.length - 1; i >= 0; i--) {
+    if (headings[i].element.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING) {
+      return headings[i].text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fingerprints `element`. Text and tag come from `element`; position, region and
+ * neighbours come from `context`, which must be attached to the document. Pass a
+ * different context when the element itself is detached, e.g. the original HTML of
+ * an applied fix whose wrapper now occupies its place.
+ */
+export function createElementFingerprint(element: Element, context: Element = element): ElementFingerprint {
+  return fingerprintElement(element, context, collectHeadings());
+}
+
+function fingerprintElement(element: Element, context: Element, headings: PageHeading[]): ElementFingerprint {
+  const text = normalizeText(element.textContent);
+
+  const tagPath: string[] = [];
+  for (let el = context.parentElement; el && el !== document.body && el !== document.documentElement; el = el.parentElement) {
+    tagPath.unshift(el.tagName.toLowerCase());
+  }
+  tagPath.push(element.tagName.toLowerCase());
+
+  const region = context.parentElement?.closest(LANDMARK_SELECTOR);
+  const innerHeading = element.querySelector(HEADING_SELECTOR);
+  const heading = innerHeading ? normalizeText(innerHeading.textContent) || undefined : precedingHeading(context, headings);
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    textHash: hashText(text),
+    textSample: text.slice(0, TEXT_SAMPLE_LENGTH),
+    tagPath,
+    landmarks: {
+      heading,
+      region: region ? describeRegion(region) : undefined,
+      prevText: normalizeText(context.previousElementSibling?.textContent).slice(0, NEIGHBOUR_TEXT_LENGTH) || undefined,
+      nextText: normalizeText(context.nextElementSibling?.textContent).slice(0, NEIGHBOUR_TEXT_LENGTH) || undefined,
+    },
+  };
+}
+
+/** Fingerprints the root element of an HTML string, positioned at `context`. */
+export function createFingerprintFromHtml(html: string, context: Element): ElementFingerprint | undefined {
+  const template = document.createElement('template');
+  template.innerHTML = html.trim();
+  const root = template.content.firstElementChild;
+  return root ? createElementFingerprint(root, context) : undefined;
+}
+
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach(w => { if (wordsB.has(w)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function pathSimilarity(a: string[], b: string[]): number {
+  // Compare from the element upwards; deploys usually add/remove outer wrappers
+  let common = 0;
+  while (common < a.length && common < b.length && a[a.length - 1 - common] === b[b.length - 1 - common]) common++;
+  return common / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Scores how well a live element matches a fingerprint (0..1).
+ * Weights: text 0.5, tag path 0.2, heading 0.15, region 0.1, neighbours 0.05.
+ */
+export function scoreFingerprintMatch(fingerprint: ElementFingerprint, element: Element): number {
+  return scoreWithHeadings(fingerprint, element, collectHeadings());
+}
+
+/** scoreFingerprintMatch with the page's headings read once for all candidates. */
+function scoreWithHeadings(fingerprint: ElementFingerprint, element: Element, headings: PageHeading[]): number {
+  const candidate = fingerprintElement(element, element, headings);
+  const { landmarks } = fingerprint;
+
+  const textScore = candidate.textHash === fingerprint.textHash
+    ? 1
+    : wordSimilarity(candidate.textSample, fingerprint.textSample) * 0.7;
+
+  let neighbourScore = 0;
+  if (landmarks.prevText && landmarks.prevText === candidate.landmarks.prevText) neighbourScore += 0.5;
+  if (landmarks.nextText && landmarks.nextText === candidate.landmarks.nextText) neighbourScore += 0.5;
+  if (!landmarks.prevText && !landmarks.nextText) neighbourScore = 1;
+
+  return textScore * 0.5
+    + pathSimilarity(fingerprint.tagPath, candidate.tagPath) * 0.2
+    + (landmarks.heading ? (landmarks.heading === candidate.landmarks.heading ? 1 : 0) : 1) * 0.15
+    + (landmarks.region ? (landmarks.region === candidate.landmarks.region ? 1 : 0) : 1) * 0.1
+    + neighbourScore * 0.05;
+}
+
+/**
+ * Finds the element a change should apply to. The selector wins when it matches an
+ * element that still looks like the fingerprint; otherwise every element with the
+ * same tag is scored and the best one above MIN_MATCH_CONFIDENCE is returned. When
+ * nothing clears the threshold the change is skipped: a selector match that no
+ * longer looks like the fingerprint most likely points at unrelated content now.
+ */
+export function findFingerprintTarget(selector: string, fingerprint?: ElementFingerprint): FingerprintMatch {
+  let selectorMatch: Element | null = null;
+  try {
+    selectorMatch = selector ? document.querySelector(selector) : null;
+  } catch (e) {
+    selectorMatch = null; // invalid selector after a deploy; fall back to the fingerprint
+  }
+
+  if (!fingerprint) {
+    return selectorMatch
+      ? { element: selectorMatch, confidence: 1, strategy: 'selector' }
+      : { element: null, confidence: 0, strategy: 'none' };
+  }
+
+  const headings = collectHeadings();
+  const selectorScore = selectorMatch ? scoreWithHeadings(fingerprint, selectorMatch, headings) : 0;
+  if (selectorMatch && selectorScore >= MIN_MATCH_CONFIDENCE) {
+    return { element: selectorMatch, confidence: selectorScore, strategy: 'selector' };
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  const candidates = Array.from(document.body.getElementsByTagName(fingerprint.tagName)).slice(0, MAX_CANDIDATES);
+  for (const candidate of candidates) {
+    if (candidate.closest(`${CHECKRA_UI_SELECTOR}, .checkra-feedback-applied-fix`)) continue;
+    const score = scoreWithHeadings(fingerprint, candidate, headings);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  if (best && bestScore >= MIN_MATCH_CONFIDENCE && bestScore > selectorScore) {
+    return { element: best, confidence: bestScore, strategy: 'fingerprint' };
+  }
+  return { element: null, confidence: Math.max(bestScore, selectorScore), strategy: 'none' };
+}
@@ -0,0 +1,200 @@
+import type { UiFramework } from './framework-detector';
+
+export type CodeTarget = 'jsx' | 'vue' | 'svelte' | 'html';
+
+export const CODE_TARGET_LABELS: Record<CodeTarget, string> = {
+  jsx: 'React (JSX)',
+  vue: 'Vue template',
+  svelte: 'Svelte',
+  html: 'HTML',
+};
+
+/** Fence language for Markdown code blocks. */
+export const CODE_TARGET_FENCES: Record<CodeTarget, string> = { jsx: 'jsx', vue: 'vue', svelte: 'svelte', html: 'html' };
+
+export function codeTargetFor(framework: UiFramework): CodeTarget {
+  return framework === 'react' ? 'jsx' : framework === 'unknown' ? 'html' : framework;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const INDENT = '  ';
+
+// HTML attribute names whose React prop name isn't just the camelCased form
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  minlength: 'minLength',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  contenteditable: 'contentEditable',
+  crossorigin: 'crossOrigin',
+  srcset: 'srcSet',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  autoplay: 'autoPlay',
+  enctype: 'encType',
+  accesskey: 'accessKey',
+  spellcheck: 'spellCheck',
+  novalidate: 'noValidate',
+  playsinline: 'playsInline',
+  referrerpolicy: 'referrerPolicy',
+  inputmode: 'inputMode',
+  datetime: 'dateTime',
+  frameborder: 'frameBorder',
+  allowfullscreen: 'allowFullScreen',
+  usemap: 'useMap',
+  'xlink:href': 'xlinkHref',
+  'xml:space': 'xmlSpace',
+};
+// Controlled-looking attributes become React's uncontrolled defaults
+const JSX_FORM_DEFAULTS: Record<string, string> = { value: 'defaultValue', checked: 'defaultChecked' };
+const BOOLEAN_ATTRIBUTES = new Set(['disabled', 'checked', 'selected', 'readonly', 'required', 'multiple', 'hidden', 'autofocus', 'autoplay', 'controls', 'loop', 'muted', 'open', 'novalidate', 'playsinline', 'allowfullscreen', 'default', 'inert', 'reversed']);
+
+interface Printer {
+  attribute(el: Element, name: string, value: string): string | null;
+  text(text: string): string;
+  comment(text: string): string;
+  /** Whether childless elements are written as `<tag />`. */
+  selfCloseEmpty: boolean;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/[-:]([a-z])/g, (_, ch: string) => ch.toUpperCase());
+}
+
+function jsxString(value: string): string {
+  return value.includes('"') || value.includes('\n') ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+function jsxStyle(style: string): string {
+  const entries = style.split(';').map(decl => decl.trim()).filter(Boolean).flatMap(decl => {
+    const colon = decl.indexOf(':');
+    if (colon === -1) return [];
+    const property = decl.slice(0, colon).trim();
+    const value = decl.slice(colon + 1).trim();
+    const key = property.startsWith('--') ? JSON.stringify(property) : camelCase(property.toLowerCase().replace(/^-ms-/, 'ms-'));
+    return [`${key}: ${/^-?\d+(\.\d+)?$/.test(value) ? value : JSON.stringify(value)}`];
+  });
+  return `{{ ${entries.join(', ')} }}`;
+}
+
+const JSX_PRINTER: Printer = {
+  attribute(el, name, value) {
+    // Inline handlers are strings in HTML but functions in React
+    if (/^on[a-z]+$/.test(name)) return null;
+    if (name === 'style') return `style=${jsxStyle(value)}`;
+    const isFormControl = ['input', 'textarea', 'select', 'option'].includes(el.tagName.toLowerCase());
+    const prop = (isFormControl && JSX_FORM_DEFAULTS[name])
+      || JSX_ATTRIBUTE_NAMES[name]
+      || (name.startsWith('data-') || name.startsWith('aria-') ? name : el.namespaceURI === 'http://www.w3.org/2000/svg' ? camelCase(name) : name);
+    if (BOOLEAN_ATTRIBUTES.has(name) && (value === '' || value === name)) return prop;
+    return `${prop}=${jsxString(value)}`;
+  },
+  text(text) {
+    const escaped = text.replace(/\u00a0/g, '&nbsp;');
+    return /[{}<>]/.test(escaped) ? `{${JSON.stringify(text)}}` : escaped;
+  },
+  comment: text => `{/* ${text.trim().replace(/\*\//g, '* /')} */}`,
+  selfCloseEmpty: true,
+};
+
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;');
+}
+
+function htmlAttribute(name: string, value: string): string {
+  return value === '' && BOOLEAN_ATTRIBUTES.has(name) ? name : `${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`;
+}
+
+const HTML_PRINTER: Printer = {
+  attribute: (_el, name, value) => htmlAttribute(name, value),
+  text: escapeHtmlText,
+  comment: text => `<!--${text}-->`,
+  selfCloseEmpty: false,
+};
+
+const VUE_PRINTER: Printer = {
+  ...HTML_PRINTER,
+  // Literal mustaches would be compiled as expressions
+  text: text => escapeHtmlText(text).replace(/\{\{/g, "{{ '{{' }}"),
+};
+
+const SVELTE_PRINTER: Printer = {
+  ...HTML_PRINTER,
+  // Braces start expressions anywhere in Svelte markup
+  attribute: (_el, name, value) => htmlAttribute(name, value).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;'),
+  text: text => escapeHtmlText(text).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;'),
+};
+
+const PRINTERS: Record<CodeTarget, Printer> = { jsx: JSX_PRINTER, vue: VUE_PRINTER, svelte: SVELTE_PRINTER, html: HTML_PRINTER };
+
+function significantNodes(parent: Node): Node[] {
+  return Array.from(parent.childNodes).filter(node =>
+    node.nodeType === Node.ELEMENT_NODE
+    || node.nodeType === Node.COMMENT_NODE
+    || (node.nodeType === Node.TEXT_NODE && (node.textContent ?? '').trim() !== '')
+  );
+}
+
+function openTag(el: Element, printer: Printer, selfClose = false): string {
+  const attributes = Array.from(el.attributes)
+    .map(attr => printer.attribute(el, attr.name, attr.value))
+    .filter((attr): attr is string => attr !== null);
+  return `<${el.localName}${attributes.length ? ` ${attributes.join(' ')}` : ''}${selfClose ? ' />' : '>'}`;
+}
+
+/** One-line form of a node. Whitespace runs collapse, except inside pre/textarea. */
+function printInline(node: Node, printer: Printer, preserveWhitespace = false): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent ?? '';
+    return printer.text(preserveWhitespace ? text : text.replace(/[ \t\n\r\f]+/g, ' '));
+  }
+  if (node.nodeType === Node.COMMENT_NODE) return printer.comment(node.textContent ?? '');
+  const el = node as Element;
+  if (VOID_TAGS.has(el.localName)) return openTag(el, printer, printer.selfCloseEmpty);
+  const preserve = preserveWhitespace || el.localName === 'pre' || el.localName === 'textarea';
+  const joined = Array.from(el.childNodes).map(child => printInline(child, printer, preserve)).join('');
+  // Children start and end with text or a tag, so trimming only drops edge whitespace
+  const children = preserve ? joined : joined.trim();
+  if (children === '' && printer.selfCloseEmpty) return openTag(el, printer, true);
+  return `${openTag(el, printer)}${children}</${el.localName}>`;
+}
+
+/**
+ * Elements holding text are printed on one line (so whitespace between words and
+ * inline tags survives); elements holding only elements get one child per line.
+ */
+function printNode(node: Node, printer: Printer, depth: number): string[] {
+  const indent = INDENT.repeat(depth);
+  if (node.nodeType !== Node.ELEMENT_NODE) return [`${indent}${printInline(node, printer).trim()}`];
+  const el = node as Element;
+  const children = significantNodes(el);
+  const hasText = children.some(child => child.nodeType === Node.TEXT_NODE);
+  if (VOID_TAGS.has(el.localName) || children.length === 0 || hasText || el.localName === 'pre' || el.localName === 'textarea') {
+    return [`${indent}${printInline(el, printer)}`];
+  }
+  return [
+    `${indent}${openTag(el, printer)}`,
+    ...children.flatMap(child => printNode(child, printer, depth + 1)),
+    `${indent}</${el.localName}>`,
+  ];
+}
+
+/** Converts an HTML fragment into markup for the given framework. Runs locally. */
+export function convertHtmlToFramework(html: string, target: CodeTarget): string {
+  const template = document.createElement('template');
+  template.innerHTML = html.trim();
+  const printer = PRINTERS[target];
+  const roots = significantNodes(template.content);
+
+  if (target === 'jsx') {
+    // JSX needs a single root expression
+    if (roots.length === 1) return printNode(roots[0], printer, 0).join('\n');
+    return ['<>', ...roots.flatMap(root => printNode(root, printer, 1)), '</>'].join('\n');
+  }
+  const lines = roots.flatMap(root => printNode(root, printer, target === 'vue' ? 1 : 0));
+  return target === 'vue' ? ['<template>', ...lines, '</template>'].join('\n') : lines.join('\n');
+}
@@ -70,4 +70,39 @@ export function detectCssFramework(): DetectedFramework {
   const type = maxScore === tailwindScore ? 'utility-first' : maxScore === bootstrapScore ? 'component-based' : 'component-based';
 
   return { name: maxScore === tailwindScore ? 'tailwind' : maxScore === bootstrapScore ? 'bootstrap' : 'material-ui', version: 'unknown', confidence: conf, utilityDensity, type };
-} 
\ No newline at end of file
+} 
+
+export type UiFramework = 'react' | 'vue' | 'svelte' | 'unknown';
+
+/** Globals the frameworks (or their dev tools) put on window. */
+type FrameworkGlobals = Window & {
+  __NEXT_DATA__?: unknown;
+  React?: unknown;
+  __NUXT__?: unknown;
+  __VUE__?: unknown;
+  Vue?: unknown;
+  __svelte?: unknown;
+  __sveltekit_dev?: unknown;
+};
+
+/**
+ * Detects the JS framework rendering the page from globals, root markers and the
+ * properties/attributes each framework leaves on DOM nodes. Only a sample of
+ * elements is inspected.
+ */
+export function detectUiFramework(): UiFramework {
+  const w = window as FrameworkGlobals;
+  if (w.__NEXT_DATA__ || w.React || document.querySelector('#__next, [data-reactroot]')) return 'react';
+  if (w.__NUXT__ || w.__VUE__ || w.Vue || document.querySelector('#__nuxt, [data-v-app]')) return 'vue';
+  if (w.__svelte || w.__sveltekit_dev || document.querySelector('[data-sveltekit-preload-data], [data-sveltekit-hydrate]')) return 'svelte';
+
+  const sample = Array.from(document.body.querySelectorAll('*')).slice(0, 500);
+  for (const el of sample) {
+    const keys = Object.keys(el);
+    if (keys.some(key => key.startsWith('__reactFiber$') || key.startsWith('__reactContainer$') || key === '_reactRootContainer')) return 'react';
+    if (keys.some(key => key === '__vue__' || key === '__vue_app__' || key === '__vueParentComponent')) return 'vue';
+    if (el.getAttributeNames().some(name => /^data-v-[0-9a-f]{6,}$/.test(name))) return 'vue';
+    if (Array.from(el.classList).some(cls => /^svelte-[a-z0-9]{4,}$/.test(cls))) return 'svelte';
+  }
+  return 'unknown';
+}
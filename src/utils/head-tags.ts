@@ -0,0 +1,84 @@
+/**
+ * Reading and replacing the SEO-relevant tags in <head>.
+ *
+ * Head fixes can't be wrapped like body fixes, so they are applied tag by tag:
+ * each proposed tag replaces the existing tag with the same key (same meta name,
+ * same og: property, the canonical link, …) or is appended when there is none.
+ */
+
+/** Stable target selector used for fixes and snapshot changes that apply to <head>. */
+export const HEAD_TARGET_SELECTOR = 'head';
+
+const MANAGED_TAG_SELECTOR = 'title, meta[name], meta[property], link[rel="canonical"], link[rel="alternate"][hreflang], script[type="application/ld+json"]';
+
+/** One applied tag and the tag it replaced (null when it was added). */
+export interface HeadTagChange {
+  added: Element;
+  replaced: Element | null;
+}
+
+/** Identifies which existing tag a proposed tag supersedes, or null if it isn't one we manage. */
+export function headTagKey(el: Element): string | null {
+  if (!el.matches(MANAGED_TAG_SELECTOR)) return null;
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'title') return 'title';
+  if (tag === 'meta') {
+    const name = el.getAttribute('name');
+    return name ? `meta:name:${name.toLowerCase()}` : `meta:property:${(el.getAttribute('property') || '').toLowerCase()}`;
+  }
+  if (tag === 'link') {
+    const rel = (el.getAttribute('rel') || '').toLowerCase();
+    return rel === 'canonical' ? 'link:canonical' : `link:alternate:${(el.getAttribute('hreflang') || '').toLowerCase()}`;
+  }
+  try {
+    const data = JSON.parse(el.textContent || '');
+    return `ld+json:${Array.isArray(data) ? 'graph' : data?.['@type'] ?? 'unknown'}`;
+  } catch {
+    return 'ld+json:invalid';
+  }
+}
+
+/** The managed tags currently in <head>, one per line. */
+export function collectHeadTagsHtml(): string {
+  return Array.from(document.head.querySelectorAll(MANAGED_TAG_SELECTOR))
+    .map(el => el.outerHTML)
+    .join('\n');
+}
+
+/** Parses proposed tags, dropping anything that isn't a managed head tag (scripts, styles, body markup). */
+export function parseHeadTags(html: string): Element[] {
+  const template = document.createElement('template');
+  template.innerHTML = html.trim();
+  return Array.from(template.content.querySelectorAll(MANAGED_TAG_SELECTOR)).filter(el => headTagKey(el) !== null);
+}
+
+/** Applies proposed tags to <head>. Returns what changed so it can be reverted. */
+export function applyHeadTags(html: string): HeadTagChange[] {
+  const changes: HeadTagChange[] = [];
+  const claimed = new Set<Element>();
+  parseHeadTags(html).forEach(tag => {
+    const key = headTagKey(tag);
+    const existing = Array.from(document.head.querySelectorAll(MANAGED_TAG_SELECTOR))
+      .find(el => !claimed.has(el) && headTagKey(el) === key) ?? null;
+    const added = document.importNode(tag, true);
+    if (existing) {
+      existing.replaceWith(added);
+    } else {
+      document.head.appendChild(added);
+    }
+    claimed.add(added);
+    changes.push({ added, replaced: existing });
+  });
+  return changes;
+}
+
+/** Undoes applyHeadTags, newest change first. */
+export function revertHeadTags(changes: HeadTagChange[]): void {
+  [...changes].reverse().forEach(({ added, replaced }) => {
+    if (replaced) {
+      added.replaceWith(replaced);
+    } else {
+      added.remove();
+    }
+  });
+}
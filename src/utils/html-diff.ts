@@ -0,0 +1,248 @@
+/**
+ * Structural and text diffs between the original and fixed HTML of a fix.
+ *
+ * The structural diff walks both trees together, pairing children by tag name
+ * (LCS over the child sequence), and reports added/removed nodes, attributes and
+ * classes plus changed text. The text diff is a word-level LCS of the visible copy.
+ * `unifiedDiff` produces line-based hunks for patches.
+ */
+
+export type HtmlDiffChangeKind =
+  | 'node-added'
+  | 'node-removed'
+  | 'attr-added'
+  | 'attr-removed'
+  | 'attr-changed'
+  | 'class-added'
+  | 'class-removed'
+  | 'text-changed';
+
+export interface HtmlDiffChange {
+  kind: HtmlDiffChangeKind;
+  /** Where the change is, e.g. `section.hero > div > h2`. */
+  path: string;
+  /** Attribute/class name, node summary or text. */
+  detail: string;
+  before?: string;
+  after?: string;
+}
+
+export interface TextDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** LCS tables grow with n×m; beyond this the diff falls back to whole-block replacement. */
+const MAX_LCS_CELLS = 4_000_000;
+const SUMMARY_LENGTH = 80;
+
+function parse(html: string): DocumentFragment {
+  const template = document.createElement('template');
+  template.innerHTML = html
+    .replace(/\s*data-checkra-fix-id="[^"]*"/g, '')
+    .replace(/\s*data-checkra-listener-attached="[^"]*"/g, '')
+    .trim();
+  return template.content;
+}
+
+function collapse(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/** Element and non-empty text children; comments and whitespace-only text are ignored. */
+function significantChildren(node: Node): Node[] {
+  return Array.from(node.childNodes).filter(child =>
+    child.nodeType === Node.ELEMENT_NODE || (child.nodeType === Node.TEXT_NODE && collapse(child.textContent) !== '')
+  );
+}
+
+function nodeKey(node: Node): string {
+  return node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '#text';
+}
+
+function describe(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (el.id) return `${tag}#${el.id}`;
+  const firstClass = el.classList[0];
+  return firstClass ? `${tag}.${firstClass}` : tag;
+}
+
+function summarize(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return `"${truncate(collapse(node.textContent))}"`;
+  const el = node as Element;
+  const text = collapse(el.textContent);
+  return text ? `<${describe(el)}> "${truncate(text)}"` : `<${describe(el)}>`;
+}
+
+function truncate(text: string): string {
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text;
+}
+
+/** Generic LCS alignment; returns index pairs of matched items. */
+export function lcsPairs<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+  if (a.length * b.length > MAX_LCS_CELLS) return [];
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equal(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function diffAttributes(before: Element, after: Element, path: string, changes: HtmlDiffChange[]): void {
+  const beforeClasses = new Set(Array.from(before.classList));
+  const afterClasses = new Set(Array.from(after.classList));
+  afterClasses.forEach(cls => { if (!beforeClasses.has(cls)) changes.push({ kind: 'class-added', path, detail: cls }); });
+  beforeClasses.forEach(cls => { if (!afterClasses.has(cls)) changes.push({ kind: 'class-removed', path, detail: cls }); });
+
+  const names = new Set([...before.getAttributeNames(), ...after.getAttributeNames()]);
+  names.delete('class');
+  names.forEach(name => {
+    const was = before.getAttribute(name);
+    const now = after.getAttribute(name);
+    if (was === null && now !== null) changes.push({ kind: 'attr-added', path, detail: name, after: now });
+    else if (was !== null && now === null) changes.push({ kind: 'attr-removed', path, detail: name, before: was });
+    else if (was !== now) changes.push({ kind: 'attr-changed', path, detail: name, before: was ?? '', after: now ?? '' });
+  });
+}
+
+function diffChildren(before: Node, after: Node, path: string, changes: HtmlDiffChange[]): void {
+  const a = significantChildren(before);
+  const b = significantChildren(after);
+  const pairs = lcsPairs(a, b, (x, y) => nodeKey(x) === nodeKey(y));
+  const childPath = (node: Node) => (node.nodeType === Node.ELEMENT_NODE ? `${path ? `${path} > ` : ''}${describe(node as Element)}` : path || '(root)');
+
+  let ai = 0;
+  let bi = 0;
+  for (const [pa, pb] of [...pairs, [a.length, b.length] as [number, number]]) {
+    for (; ai < pa; ai++) changes.push({ kind: 'node-removed', path: path || '(root)', detail: summarize(a[ai]) });
+    for (; bi < pb; bi++) changes.push({ kind: 'node-added', path: path || '(root)', detail: summarize(b[bi]) });
+    if (pa === a.length && pb === b.length) break;
+    diffNode(a[pa], b[pb], childPath(b[pb]), changes);
+    ai = pa + 1;
+    bi = pb + 1;
+  }
+}
+
+function diffNode(before: Node, after: Node, path: string, changes: HtmlDiffChange[]): void {
+  if (before.nodeType === Node.TEXT_NODE) {
+    const was = collapse(before.textContent);
+    const now = collapse(after.textContent);
+    if (was !== now) changes.push({ kind: 'text-changed', path, detail: truncate(now), before: was, after: now });
+    return;
+  }
+  diffAttributes(before as Element, after as Element, path, changes);
+  diffChildren(before, after, path, changes);
+}
+
+/** Structural changes from `originalHtml` to `fixedHtml`. */
+export function diffHtml(originalHtml: string, fixedHtml: string): HtmlDiffChange[] {
+  const changes: HtmlDiffChange[] = [];
+  diffChildren(parse(originalHtml), parse(fixedHtml), '', changes);
+  return changes;
+}
+
+function visibleText(html: string): string {
+  const fragment = parse(html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ''));
+  // Keep block boundaries so words from adjacent elements don't merge
+  fragment.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, div, section, br, button, td, th').forEach(el => el.after(' '));
+  return collapse(fragment.textContent);
+}
+
+/** Word-level diff of the visible text. */
+export function diffText(originalHtml: string, fixedHtml: string): TextDiffPart[] {
+  const a = visibleText(originalHtml).split(' ').filter(Boolean);
+  const b = visibleText(fixedHtml).split(' ').filter(Boolean);
+  const pairs = lcsPairs(a, b, (x, y) => x === y);
+  if (pairs.length === 0 && (a.length || b.length)) {
+    return [
+      ...(a.length ? [{ type: 'removed' as const, text: a.join(' ') }] : []),
+      ...(b.length ? [{ type: 'added' as const, text: b.join(' ') }] : []),
+    ];
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+  let ai = 0;
+  let bi = 0;
+  for (const [pa, pb] of [...pairs, [a.length, b.length] as [number, number]]) {
+    for (; ai < pa; ai++) push('removed', a[ai]);
+    for (; bi < pb; bi++) push('added', b[bi]);
+    if (pa < a.length) push('same', a[pa]);
+    ai = pa + 1;
+    bi = pb + 1;
+  }
+  return parts;
+}
+
+/** Puts each tag on its own line so line diffs of single-line HTML stay readable. */
+export function htmlToLines(html: string): string[] {
+  return html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+/**
+ * Unified-diff hunks (`@@ -a,b +c,d @@` followed by ` `, `-` and `+` lines) between
+ * two line arrays, with `context` unchanged lines around each change.
+ */
+export function unifiedDiff(before: string[], after: string[], context = 3): string[] {
+  const pairs = lcsPairs(before, after, (x, y) => x === y);
+  const lines: DiffLine[] = [];
+  let ai = 0;
+  let bi = 0;
+  for (const [pa, pb] of [...pairs, [before.length, after.length] as [number, number]]) {
+    for (; ai < pa; ai++) lines.push({ type: '-', text: before[ai], oldLine: ai, newLine: bi });
+    for (; bi < pb; bi++) lines.push({ type: '+', text: after[bi], oldLine: ai, newLine: bi });
+    if (pa < before.length) lines.push({ type: ' ', text: before[pa], oldLine: pa, newLine: pb });
+    ai = pa + 1;
+    bi = pb + 1;
+  }
+
+  const output: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, i) => i >= index && line.type !== ' ');
+    if (firstChange === -1) break;
+    const start = Math.max(index, firstChange - context);
+    // Extend the hunk while the next change is close enough for the contexts to touch
+    let end = firstChange;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].type !== ' ') end = i;
+      else if (i - end > context * 2) break;
+    }
+    const stop = Math.min(lines.length, end + context + 1);
+    const hunk = lines.slice(start, stop);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    const oldStart = oldCount ? hunk[0].oldLine + 1 : hunk[0].oldLine;
+    const newStart = newCount ? hunk[0].newLine + 1 : hunk[0].newLine;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(line => output.push(`${line.type}${line.text}`));
+    index = stop;
+  }
+  return output;
+}
@@ -0,0 +1,115 @@
+import type { PageMetadata } from '../types';
+import { CHECKRA_UI_SELECTOR } from './checkra-ui';
+
+export type SeoCheckId = 'title' | 'description' | 'h1' | 'language' | 'open-graph' | 'twitter-card' | 'canonical' | 'hreflang' | 'structured-data';
+export type SeoCheckStatus = 'pass' | 'info' | 'warn' | 'fail';
+
+export interface SeoFinding {
+  check: SeoCheckId;
+  status: SeoCheckStatus;
+  message: string;
+}
+
+// Roughly what search results show before truncating
+const TITLE_LENGTH: [number, number] = [30, 60];
+const DESCRIPTION_LENGTH: [number, number] = [70, 160];
+
+function metaContent(selector: string): string | null {
+  return document.head.querySelector(selector)?.getAttribute('content')?.trim() || null;
+}
+
+function lengthFinding(check: SeoCheckId, label: string, value: string | null, [min, max]: [number, number]): SeoFinding {
+  if (!value) return { check, status: 'fail', message: `${label} is missing.` };
+  const length = value.trim().length;
+  if (length < min) return { check, status: 'warn', message: `${label} is ${length} characters; aim for ${min}–${max}.` };
+  if (length > max) return { check, status: 'warn', message: `${label} is ${length} characters and will be cut off; aim for ${min}–${max}.` };
+  return { check, status: 'pass', message: `${label} is ${length} characters.` };
+}
+
+/**
+ * Checks the page's metadata (from getPageMetadata) plus the social, canonical,
+ * hreflang and structured-data tags in <head>. Runs locally.
+ */
+export function runSeoChecks(metadata: PageMetadata): SeoFinding[] {
+  const findings: SeoFinding[] = [
+    lengthFinding('title', 'Title', metadata.title, TITLE_LENGTH),
+    lengthFinding('description', 'Meta description', metadata.description, DESCRIPTION_LENGTH),
+  ];
+
+  const h1s = Array.from(document.querySelectorAll('h1')).filter(h => !h.closest(CHECKRA_UI_SELECTOR));
+  if (h1s.length === 0) {
+    findings.push({ check: 'h1', status: 'fail', message: 'The page has no `<h1>`.' });
+  } else if (h1s.length > 1) {
+    findings.push({ check: 'h1', status: 'warn', message: `The page has ${h1s.length} \`<h1>\` elements; use one.` });
+  } else if (metadata.h1 && metadata.title && metadata.h1.toLowerCase() === metadata.title.toLowerCase()) {
+    findings.push({ check: 'h1', status: 'info', message: 'The `<h1>` repeats the title word for word; a variation can target more queries.' });
+  } else {
+    findings.push({ check: 'h1', status: 'pass', message: `One \`<h1>\`: "${metadata.h1 ?? ''}".` });
+  }
+
+  findings.push(metadata.language
+    ? { check: 'language', status: 'pass', message: `Language is "${metadata.language}".` }
+    : { check: 'language', status: 'warn', message: '`<html>` has no lang attribute.' });
+
+  const missingOg = [
+    !metadata.ogTitle && 'og:title',
+    !metaContent('meta[property="og:description"]') && 'og:description',
+    !metaContent('meta[property="og:image"]') && 'og:image',
+  ].filter(Boolean);
+  findings.push(missingOg.length === 0
+    ? { check: 'open-graph', status: 'pass', message: 'Open Graph title, description and image are set.' }
+    : { check: 'open-graph', status: missingOg.includes('og:image') ? 'fail' : 'warn', message: `Missing ${missingOg.join(', ')}; shared links will look bare.` });
+
+  const twitterCard = metaContent('meta[name="twitter:card"]');
+  findings.push(twitterCard
+    ? { check: 'twitter-card', status: 'pass', message: `twitter:card is "${twitterCard}".` }
+    : { check: 'twitter-card', status: 'warn', message: 'No twitter:card meta tag.' });
+
+  const canonical = document.head.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  if (!canonical) {
+    findings.push({ check: 'canonical', status: 'warn', message: 'No canonical link.' });
+  } else {
+    let resolved: URL | null = null;
+    try {
+      resolved = new URL(canonical, window.location.href);
+    } catch {
+      resolved = null; // e.g. href="http://"
+    }
+    const here = new URL(window.location.href);
+    findings.push(!resolved
+      ? { check: 'canonical', status: 'fail', message: `Canonical link "${canonical}" is not a valid URL.` }
+      : resolved.origin + resolved.pathname === here.origin + here.pathname
+        ? { check: 'canonical', status: 'pass', message: 'Canonical link points to this page.' }
+        : { check: 'canonical', status: 'info', message: `Canonical link points to ${resolved.href}; make sure that is intended.` });
+  }
+
+  const alternates = document.head.querySelectorAll('link[rel="alternate"][hreflang]').length;
+  findings.push(alternates
+    ? { check: 'hreflang', status: 'pass', message: `${alternates} hreflang alternate${alternates === 1 ? '' : 's'}.` }
+    : { check: 'hreflang', status: 'info', message: 'No hreflang alternates (only needed if the page exists in other languages).' });
+
+  const jsonLd = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
+  const invalid = jsonLd.filter(script => {
+    try {
+      JSON.parse(script.textContent || '');
+      return false;
+    } catch {
+      return true;
+    }
+  }).length;
+  if (jsonLd.length === 0) {
+    findings.push({ check: 'structured-data', status: 'warn', message: 'No JSON-LD structured data.' });
+  } else if (invalid > 0) {
+    findings.push({ check: 'structured-data', status: 'fail', message: `${invalid} of ${jsonLd.length} JSON-LD blocks are not valid JSON.` });
+  } else {
+    findings.push({ check: 'structured-data', status: 'pass', message: `${jsonLd.length} JSON-LD block${jsonLd.length === 1 ? '' : 's'}.` });
+  }
+
+  return findings;
+}
+
+const STATUS_ICONS: Record<SeoCheckStatus, string> = { pass: '✅', info: 'ℹ️', warn: '⚠️', fail: '❌' };
+
+export function formatSeoFindings(findings: SeoFinding[]): string {
+  return findings.map(f => `- ${STATUS_ICONS[f.status]} ${f.message}`).join('\n');
+}
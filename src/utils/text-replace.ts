@@ -0,0 +1,176 @@
+import { CHECKRA_UI_SELECTOR } from './checkra-ui';
+
+/** Parsed `/replace "old" "new"` command. */
+export interface ReplaceCommand {
+  find: string;
+  replacement: string;
+}
+
+/** One occurrence of the search text inside a single text node. */
+export interface ReplaceMatch {
+  node: Text;
+  offset: number;
+  /**
+   * The element the occurrence is changed through: the closest block-level
+   * ancestor, or the content container of the applied fix it sits in.
+   */
+  block: HTMLElement;
+}
+
+// Checkra's own UI plus the hidden original inside applied fixes
+const EXCLUDED_SELECTOR = `${CHECKRA_UI_SELECTOR}, .checkra-original-content`;
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA', 'svg']);
+const REPLACE_COMMAND_REGEX = /^\/replace\s+(["'])((?:\\.|(?!\1)[^\\])*)\1\s+(["'])((?:\\.|(?!\3)[^\\])*)\3\s*$/i;
+const FIX_CONTENT_SELECTOR = '.checkra-feedback-applied-fix > .checkra-applied-fix-content';
+
+function unescapeQuoted(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Parses `/replace "old" "new"` (single quotes work too; `\"` escapes a quote).
+ * The replacement may be empty. Returns null when the arguments don't parse.
+ */
+export function parseReplaceCommand(text: string): ReplaceCommand | null {
+  // Typographic quotes from autocorrecting keyboards count as plain ones
+  const normalized = text.trim().replace(/[\u201c\u201d]/g, '"').replace(/[\u2018\u2019]/g, "'");
+  const match = normalized.match(REPLACE_COMMAND_REGEX);
+  if (!match || match[2] === '') return null;
+  return { find: unescapeQuoted(match[2]), replacement: unescapeQuoted(match[4]) };
+}
+
+function isSearchableText(node: Text): boolean {
+  const parent = node.parentElement;
+  if (!parent || SKIPPED_TAGS.has(parent.tagName) || parent.closest('svg')) return false;
+  return !parent.closest(EXCLUDED_SELECTOR);
+}
+
+function isBlockLevel(el: HTMLElement): boolean {
+  const display = getComputedStyle(el).display;
+  return !display.startsWith('inline') && display !== 'contents' && display !== 'none';
+}
+
+/**
+ * Text inside an applied fix changes that fix (as a new revision). Other text
+ * changes its closest block-level ancestor, or the text's parent when that block
+ * already holds a fix (a block can't be replaced around a fix).
+ */
+function blockFor(node: Text): HTMLElement | null {
+  const parent = node.parentElement;
+  if (!parent) return null;
+  const fixContent = parent.closest<HTMLElement>(FIX_CONTENT_SELECTOR);
+  // A fix toggled to its original version hides its content
+  if (fixContent) return fixContent.style.display === 'none' ? null : fixContent;
+
+  let block: HTMLElement = parent;
+  while (!isBlockLevel(block) && block.parentElement && block.parentElement !== document.body) {
+    block = block.parentElement;
+  }
+  if (block.querySelector('.checkra-feedback-applied-fix')) block = parent;
+  if (block === document.body || block.querySelector('.checkra-feedback-applied-fix')) return null;
+  return block;
+}
+
+function textNodesIn(root: Node, filter: (node: Text) => boolean): Text[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (filter(node as Text)) nodes.push(node as Text);
+  }
+  return nodes;
+}
+
+/**
+ * Offsets of `find` in `text`. When the replacement contains the search text
+ * ("Acme" → "Acme Inc"), text that already reads as the replacement is skipped,
+ * so replaced (or already correct) copy isn't matched again.
+ */
+function offsetsOf(text: string, { find, replacement }: ReplaceCommand): number[] {
+  const offsets: number[] = [];
+  const findInReplacement = replacement.indexOf(find);
+  for (let at = text.indexOf(find); at !== -1; at = text.indexOf(find, at + find.length)) {
+    const alreadyReplaced = findInReplacement !== -1 && at >= findInReplacement && text.startsWith(replacement, at - findInReplacement);
+    if (!alreadyReplaced) offsets.push(at);
+  }
+  return offsets;
+}
+
+/**
+ * Finds every case-sensitive occurrence of `find` in the page's text, outside
+ * Checkra's UI. Occurrences split across elements (`Acme <b>Pro</b>`) aren't found.
+ */
+export function findReplaceMatches(command: ReplaceCommand): ReplaceMatch[] {
+  if (!command.find) return [];
+  const matches: ReplaceMatch[] = [];
+  textNodesIn(document.body, isSearchableText).forEach(node => {
+    const offsets = offsetsOf(node.data, command);
+    const block = offsets.length > 0 ? blockFor(node) : null;
+    if (block) offsets.forEach(offset => matches.push({ node, offset, block }));
+  });
+  return matches;
+}
+
+/**
+ * Position of a match among all occurrences inside its block (nested blocks
+ * included), as counted by `replaceInBlock`.
+ */
+export function positionInBlock(match: ReplaceMatch, command: ReplaceCommand): number {
+  let position = 0;
+  for (const node of textNodesIn(match.block, isSearchableText)) {
+    const offsets = offsetsOf(node.data, command);
+    if (node === match.node) return position + offsets.indexOf(match.offset);
+    position += offsets.length;
+  }
+  return -1;
+}
+
+/** Drops blocks inside other blocks of the list; replacing the outer one covers them. */
+export function outermostBlocks(blocks: HTMLElement[]): HTMLElement[] {
+  const unique = Array.from(new Set(blocks));
+  return unique.filter(block => !unique.some(other => other !== block && other.contains(block)));
+}
+
+/**
+ * Returns a copy of `block` with the occurrences at the given positions (all of
+ * them when omitted) replaced. Positions count the same way as `positionInBlock`.
+ */
+export function replaceInBlock(block: HTMLElement, command: ReplaceCommand, positions?: Set<number>): HTMLElement {
+  const { find, replacement } = command;
+  const copy = block.cloneNode(true) as HTMLElement;
+  // Walk the live block so exclusions see the real ancestors, then edit the copy's matching nodes
+  const liveNodes = textNodesIn(block, isSearchableText);
+  const allNodes = textNodesIn(block, () => true);
+  const copyNodes = textNodesIn(copy, () => true);
+  let position = 0;
+  liveNodes.forEach(node => {
+    const copyNode = copyNodes[allNodes.indexOf(node)];
+    const selected = offsetsOf(node.data, command).filter(() => !positions || positions.has(position++));
+    let text = copyNode.data;
+    // Right to left so earlier offsets stay valid
+    selected.reverse().forEach(offset => {
+      text = text.slice(0, offset) + replacement + text.slice(offset + find.length);
+    });
+    copyNode.data = text;
+  });
+  return copy;
+}
+
+/** The match with some surrounding text, for listing it. */
+export function matchContext(match: ReplaceMatch, find: string, radius = 30): { before: string; after: string } {
+  const nodes = textNodesIn(match.block, isSearchableText);
+  const start = nodes.slice(0, nodes.indexOf(match.node)).reduce((length, node) => length + node.data.length, 0) + match.offset;
+  const text = nodes.map(node => node.data).join('');
+  const before = text.slice(0, start).replace(/\s+/g, ' ').trimStart();
+  const after = text.slice(start + find.length).replace(/\s+/g, ' ').trimEnd();
+  return {
+    before: before.length > radius ? `…${before.slice(-radius)}` : before,
+    after: after.length > radius ? `${after.slice(0, radius)}…` : after,
+  };
+}
+
+export function matchRange(match: ReplaceMatch, find: string): Range {
+  const range = document.createRange();
+  range.setStart(match.node, match.offset);
+  range.setEnd(match.node, match.offset + find.length);
+  return range;
+}